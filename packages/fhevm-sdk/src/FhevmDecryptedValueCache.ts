@@ -0,0 +1,98 @@
+import {
+  GenericStringNamespacedStorage,
+  GenericStringStorage,
+  fhevmStorageNamespace,
+} from "./storage/GenericStringStorage.js";
+
+export type FhevmClearValue = string | bigint | boolean;
+
+// JSON cannot hold bigints, values are stored with their type
+type StoredClearValue = { type: "bigint" | "boolean" | "string"; value: string };
+
+function _serialize(value: FhevmClearValue): string {
+  const stored: StoredClearValue =
+    typeof value === "bigint"
+      ? { type: "bigint", value: value.toString() }
+      : typeof value === "boolean"
+        ? { type: "boolean", value: String(value) }
+        : { type: "string", value };
+  return JSON.stringify(stored);
+}
+
+function _deserialize(value: string): FhevmClearValue | undefined {
+  try {
+    const stored = JSON.parse(value) as StoredClearValue;
+    switch (stored?.type) {
+      case "bigint":
+        return BigInt(stored.value);
+      case "boolean":
+        return stored.value === "true";
+      case "string":
+        return stored.value;
+    }
+  } catch {
+    // Corrupted entries read as missing
+  }
+  return undefined;
+}
+
+/**
+ * Persistent handle → cleartext cache. Handles are immutable, a value
+ * decrypted once never needs to hit the relayer again. Entries are scoped to
+ * `userAddress` on `chainId`. Cleartexts are stored as is, wrap `storage` in
+ * an `EncryptedStringStorage` to keep them encrypted at rest.
+ */
+export class FhevmDecryptedValueCache {
+  #storage: GenericStringNamespacedStorage;
+
+  constructor(storage: GenericStringStorage, scope: { chainId: number; userAddress: string; prefix?: string }) {
+    this.#storage = new GenericStringNamespacedStorage(
+      storage,
+      fhevmStorageNamespace({
+        prefix: scope.prefix ?? "fhevm-values",
+        chainId: scope.chainId,
+        account: scope.userAddress,
+      }),
+    );
+  }
+
+  async get(handle: string): Promise<FhevmClearValue | undefined> {
+    const value = await this.#storage.getItem(handle.toLowerCase());
+    return value === null || value === undefined ? undefined : _deserialize(value);
+  }
+
+  // Cached values of `handles`, keyed by handle as given. Missing handles are left out
+  async getMany(handles: readonly string[]): Promise<Record<string, FhevmClearValue>> {
+    const values: Record<string, FhevmClearValue> = {};
+    for (const handle of handles) {
+      const value = await this.get(handle);
+      if (value !== undefined) {
+        values[handle] = value;
+      }
+    }
+    return values;
+  }
+
+  async set(handle: string, value: FhevmClearValue): Promise<void> {
+    await this.#storage.setItem(handle.toLowerCase(), _serialize(value));
+  }
+
+  async setMany(values: Record<string, FhevmClearValue>): Promise<void> {
+    for (const [handle, value] of Object.entries(values)) {
+      await this.set(handle, value);
+    }
+  }
+
+  async remove(handle: string): Promise<void> {
+    await this.#storage.removeItem(handle.toLowerCase());
+  }
+
+  // Deletes every cached value of the scope, requires an enumerable storage
+  async clear(): Promise<number> {
+    const keys = await this.#storage.keys();
+    for (const key of keys) {
+      await this.#storage.removeItem(key);
+    }
+    return keys.length;
+  }
+}
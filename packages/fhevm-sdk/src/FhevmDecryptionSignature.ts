@@ -1,30 +1,140 @@
-import { GenericStringStorage } from "./storage/GenericStringStorage";
-import { EIP712Type, FhevmDecryptionSignatureType, FhevmInstance } from "./fhevmTypes";
+import {
+  EnumerableStringStorage,
+  GenericStringStorage,
+  isEnumerableStringStorage,
+} from "./storage/GenericStringStorage.js";
+import {
+  EIP712Type,
+  FhevmDecryptionDelegationType,
+  FhevmDecryptionSignatureType,
+  FhevmInstance,
+} from "./fhevmTypes.js";
+import type { createEIP712 as createRelayerEIP712 } from "@zama-fhe/relayer-sdk/web";
 import { ethers } from "ethers";
+import { FhevmConfigError, FhevmDecryptError, toFhevmError } from "./internal/errors.js";
+import { isFhevmWorkerInstance } from "./internal/worker/FhevmWorker.js";
+import { FhevmSignerLike, toFhevmTypedDataSigner } from "./internal/signer.js";
 
 function _timestampNow(): number {
   return Math.floor(Date.now() / 1000);
 }
 
+export const DEFAULT_SIGNATURE_DURATION_DAYS = 365;
+// Longest validity window accepted by the relayer
+export const MAX_SIGNATURE_DURATION_DAYS = 365;
+// Largest contract set of a signature accepted by the relayer
+export const MAX_SIGNATURE_CONTRACT_ADDRESSES = 10;
+
+export type FhevmDecryptionSignatureOptions = {
+  // Validity window of a new signature, in whole days
+  durationDays?: number;
+  // Re-sign a stored signature that expires within this many seconds
+  renewBeforeSeconds?: number;
+  // Also covered by a new signature, e.g. every contract of the app, so that
+  // a single wallet prompt serves later requests
+  preSignContractAddresses?: readonly string[];
+};
+
+function _checkDurationDays(durationDays: number) {
+  if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MAX_SIGNATURE_DURATION_DAYS) {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_SIGNATURE_DURATION",
+      `Invalid signature duration ${durationDays}, expected a whole number of days between 1 and ${MAX_SIGNATURE_DURATION_DAYS}`,
+    );
+  }
+}
+
+function _mergeContractAddresses(...lists: (readonly string[])[]): string[] {
+  const merged = new Map<string, string>();
+  for (const list of lists) {
+    for (const address of list) {
+      if (merged.size >= MAX_SIGNATURE_CONTRACT_ADDRESSES && list !== lists[0]) {
+        break;
+      }
+      if (!merged.has(address.toLowerCase())) {
+        merged.set(address.toLowerCase(), address);
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+const DELEGATED_PRIMARY_TYPE = "DelegatedUserDecryptRequestVerification";
+
+function _createEIP712(
+  instance: FhevmInstance,
+  publicKey: string,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number,
+  delegatedAccount?: string,
+): EIP712Type {
+  // The relayer SDK instance method is the SDK `createEIP712`, which takes an
+  // optional `delegatedAccount` 5th argument the instance type leaves out.
+  // Mock instances ignore it.
+  const createEIP712 = instance.createEIP712 as ReturnType<typeof createRelayerEIP712>;
+  const eip712 = createEIP712(
+    publicKey,
+    contractAddresses,
+    startTimestamp,
+    durationDays,
+    delegatedAccount,
+  ) as EIP712Type;
+  if (delegatedAccount && eip712.primaryType !== DELEGATED_PRIMARY_TYPE) {
+    throw new FhevmDecryptError(
+      "DELEGATED_DECRYPT_UNSUPPORTED",
+      "Delegated decryption signatures are not supported by this version of the relayer SDK",
+    );
+  }
+  return eip712;
+}
+
+// Hash of the EIP-712 domain a stored signature was made for
+function _hashDomain(sig: FhevmDecryptionSignature): string | undefined {
+  try {
+    return ethers.TypedDataEncoder.hashDomain(sig.toJSON().eip712.domain);
+  } catch {
+    return undefined;
+  }
+}
+
+function _primaryTypes(eip712: EIP712Type) {
+  return { [eip712.primaryType]: eip712.types[eip712.primaryType] };
+}
+
 class FhevmDecryptionSignatureStorageKey {
   #contractAddresses: `0x${string}`[];
   #userAddress: `0x${string}`;
   #publicKey: string | undefined;
   #key: string;
+  #domainHash: string;
 
-  constructor(instance: FhevmInstance, contractAddresses: string[], userAddress: string, publicKey?: string) {
+  constructor(
+    instance: FhevmInstance,
+    contractAddresses: string[],
+    userAddress: string,
+    publicKey?: string,
+    delegatedAccount?: string,
+  ) {
     if (!ethers.isAddress(userAddress)) {
       throw new TypeError(`Invalid address ${userAddress}`);
     }
 
     const sortedContractAddresses = (contractAddresses as `0x${string}`[]).sort();
 
-    const emptyEIP712 = (instance as any).createEIP712(publicKey ?? (ethers as any).ZeroAddress, sortedContractAddresses, 0, 0);
+    const emptyEIP712 = _createEIP712(
+      instance,
+      publicKey ?? (ethers as any).ZeroAddress,
+      sortedContractAddresses,
+      0,
+      0,
+      delegatedAccount,
+    );
 
     try {
       const hash = (ethers as any).TypedDataEncoder.hash(
         emptyEIP712.domain,
-        { UserDecryptRequestVerification: emptyEIP712.types.UserDecryptRequestVerification },
+        _primaryTypes(emptyEIP712),
         emptyEIP712.message,
       );
 
@@ -32,6 +142,7 @@ class FhevmDecryptionSignatureStorageKey {
       this.#userAddress = userAddress as `0x${string}`;
 
       this.#key = `${userAddress}:${hash}`;
+      this.#domainHash = ethers.TypedDataEncoder.hashDomain(emptyEIP712.domain);
     } catch (e) {
       throw e as any;
     }
@@ -41,6 +152,11 @@ class FhevmDecryptionSignatureStorageKey {
     return this.#contractAddresses;
   }
 
+  // Hash of the EIP-712 domain (chain id, verifying contract) of the instance
+  get domainHash(): string {
+    return this.#domainHash;
+  }
+
   get userAddress(): `0x${string}` {
     return this.#userAddress;
   }
@@ -63,6 +179,7 @@ export class FhevmDecryptionSignature {
   #userAddress: `0x${string}`;
   #contractAddresses: `0x${string}`[];
   #eip712: EIP712Type;
+  #delegatedAccount: `0x${string}` | undefined;
 
   private constructor(parameters: FhevmDecryptionSignatureType) {
     if (!FhevmDecryptionSignature.checkIs(parameters)) {
@@ -76,6 +193,7 @@ export class FhevmDecryptionSignature {
     this.#userAddress = parameters.userAddress;
     this.#contractAddresses = parameters.contractAddresses;
     this.#eip712 = parameters.eip712;
+    this.#delegatedAccount = parameters.delegatedAccount;
   }
 
   public get privateKey() {
@@ -106,6 +224,24 @@ export class FhevmDecryptionSignature {
     return this.#userAddress;
   }
 
+  // Account allowed to decrypt on behalf of `userAddress`, if delegated
+  public get delegatedAccount() {
+    return this.#delegatedAccount;
+  }
+
+  /** Unix timestamp (seconds) at which the signature stops being accepted. */
+  public get expiresAt() {
+    return this.#startTimestamp + this.#durationDays * 24 * 60 * 60;
+  }
+
+  public get remainingSeconds() {
+    return Math.max(0, this.expiresAt - _timestampNow());
+  }
+
+  isExpiringSoon(thresholdSeconds: number): boolean {
+    return this.remainingSeconds <= thresholdSeconds;
+  }
+
   static checkIs(s: unknown): s is FhevmDecryptionSignatureType {
     if (!s || typeof s !== "object") {
       return false;
@@ -144,6 +280,9 @@ export class FhevmDecryptionSignature {
     if (!("primaryType" in (s as any).eip712 && typeof (s as any).eip712.primaryType === "string")) {
       return false;
     }
+    if ((s as any).delegatedAccount !== undefined && !ethers.isAddress((s as any).delegatedAccount)) {
+      return false;
+    }
     if (!("message" in (s as any).eip712)) {
       return false;
     }
@@ -163,6 +302,7 @@ export class FhevmDecryptionSignature {
       userAddress: this.#userAddress,
       contractAddresses: this.#contractAddresses,
       eip712: this.#eip712,
+      delegatedAccount: this.#delegatedAccount,
     };
   }
 
@@ -176,11 +316,13 @@ export class FhevmDecryptionSignature {
   }
 
   isValid(): boolean {
-    return _timestampNow() < this.#startTimestamp + this.#durationDays * 24 * 60 * 60;
+    return _timestampNow() < this.expiresAt;
   }
 
   async saveToGenericStringStorage(storage: GenericStringStorage, instance: FhevmInstance, withPublicKey: boolean) {
     try {
+      // Includes the private key: wrap `storage` in an `EncryptedStringStorage`
+      // to protect it at rest
       const value = JSON.stringify(this);
 
       const storageKey = new FhevmDecryptionSignatureStorageKey(
@@ -188,6 +330,7 @@ export class FhevmDecryptionSignature {
         this.#contractAddresses,
         this.#userAddress,
         withPublicKey ? this.#publicKey : undefined,
+        this.#delegatedAccount,
       );
       await storage.setItem(storageKey.key, value);
     } catch {
@@ -201,71 +344,210 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     userAddress: string,
     publicKey?: string,
+    options?: { delegatedAccount?: string },
   ): Promise<FhevmDecryptionSignature | null> {
     try {
-      const storageKey = new FhevmDecryptionSignatureStorageKey(instance, contractAddresses, userAddress, publicKey);
-
-      const result = await storage.getItem(storageKey.key);
+      const storageKey = new FhevmDecryptionSignatureStorageKey(
+        instance,
+        contractAddresses,
+        userAddress,
+        publicKey,
+        options?.delegatedAccount,
+      );
 
-      if (!result) {
-        return null;
+      const exact = await FhevmDecryptionSignature.#loadExact(storage, storageKey.key);
+      if (exact) {
+        return exact;
       }
 
-      try {
-        const kps = FhevmDecryptionSignature.fromJSON(result);
-        if (!kps.isValid()) {
+      // Enumerable storages are also scanned for any signature covering the
+      // requested contracts
+      if (isEnumerableStringStorage(storage)) {
+        try {
+          return await FhevmDecryptionSignature.#findCovering(
+            storage,
+            contractAddresses,
+            userAddress,
+            publicKey,
+            options?.delegatedAccount,
+            storageKey.domainHash,
+          );
+        } catch {
+          // Wrappers expose `keys()` even when the wrapped storage cannot list its keys
           return null;
         }
+      }
 
-        return kps;
-      } catch {
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  static async #loadExact(storage: GenericStringStorage, key: string): Promise<FhevmDecryptionSignature | null> {
+    const result = await storage.getItem(key);
+
+    if (!result) {
+      return null;
+    }
+
+    try {
+      const kps = FhevmDecryptionSignature.fromJSON(result);
+      if (!kps.isValid()) {
         return null;
       }
+
+      return kps;
     } catch {
       return null;
     }
   }
 
-  static async new(
+  // Valid signature of `userAddress` for the EIP-712 domain `domainHash` whose
+  // contract set is a superset of `contractAddresses`, the one expiring last
+  static async #findCovering(
+    storage: EnumerableStringStorage,
+    contractAddresses: string[],
+    userAddress: string,
+    publicKey: string | undefined,
+    delegatedAccount: string | undefined,
+    domainHash: string,
+  ): Promise<FhevmDecryptionSignature | null> {
+    const prefix = `${userAddress.toLowerCase()}:`;
+    const requested = contractAddresses.map(a => a.toLowerCase());
+    let best: FhevmDecryptionSignature | null = null;
+    for (const key of await storage.keys()) {
+      if (!key.toLowerCase().startsWith(prefix)) {
+        continue;
+      }
+      let sig: FhevmDecryptionSignature;
+      try {
+        sig = FhevmDecryptionSignature.fromJSON(await storage.getItem(key));
+      } catch {
+        continue;
+      }
+      const covered = new Set(sig.contractAddresses.map(a => a.toLowerCase()));
+      if (
+        sig.isValid() &&
+        sig.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+        sig.delegatedAccount?.toLowerCase() === delegatedAccount?.toLowerCase() &&
+        (publicKey === undefined || sig.publicKey === publicKey) &&
+        _hashDomain(sig) === domainHash &&
+        requested.every(a => covered.has(a)) &&
+        (!best || sig.expiresAt > best.expiresAt)
+      ) {
+        best = sig;
+      }
+    }
+    return best;
+  }
+
+  static async #sign(
     instance: FhevmInstance,
     contractAddresses: string[],
     publicKey: string,
-    privateKey: string,
-    signer: ethers.JsonRpcSigner,
-  ): Promise<FhevmDecryptionSignature | null> {
+    signer: FhevmSignerLike,
+    durationDays: number,
+    delegatedAccount?: `0x${string}`,
+  ): Promise<FhevmDecryptionDelegationType | Omit<FhevmDecryptionSignatureType, "privateKey">> {
+    _checkDurationDays(durationDays);
+    const typedDataSigner = toFhevmTypedDataSigner(signer);
     try {
-      const userAddress = (await signer.getAddress()) as `0x${string}`;
+      const userAddress = (await typedDataSigner.getAddress()) as `0x${string}`;
       const startTimestamp = _timestampNow();
-      const durationDays = 365;
-      const eip712 = (instance as any).createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
-      const signature = await (signer as any).signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message,
+      const eip712 = _createEIP712(
+        instance,
+        publicKey,
+        contractAddresses,
+        startTimestamp,
+        durationDays,
+        delegatedAccount,
       );
-      return new FhevmDecryptionSignature({
+      const signature = await typedDataSigner.signTypedData(eip712.domain, _primaryTypes(eip712), eip712.message);
+      return {
         publicKey,
-        privateKey,
         contractAddresses: contractAddresses as `0x${string}`[],
         startTimestamp,
         durationDays,
         signature,
-        eip712: eip712 as EIP712Type,
+        eip712,
         userAddress,
-      });
-    } catch {
-      return null;
+        delegatedAccount,
+      };
+    } catch (e) {
+      // Wallet rejections surface as FhevmSignatureRejectedError
+      throw toFhevmError(e, "signature");
     }
   }
 
+  static async new(
+    instance: FhevmInstance,
+    contractAddresses: string[],
+    publicKey: string,
+    privateKey: string,
+    signer: FhevmSignerLike,
+    options?: Pick<FhevmDecryptionSignatureOptions, "durationDays">,
+  ): Promise<FhevmDecryptionSignature> {
+    const signed = await FhevmDecryptionSignature.#sign(
+      instance,
+      contractAddresses,
+      publicKey,
+      signer,
+      options?.durationDays ?? DEFAULT_SIGNATURE_DURATION_DAYS,
+    );
+    return new FhevmDecryptionSignature({ ...signed, privateKey });
+  }
+
+  /**
+   * Signed by the delegator: lets `delegatedAccount` decrypt the handles of
+   * `contractAddresses` with the keypair it generated. The delegation holds
+   * no private key and can be handed over to the delegate.
+   */
+  static async signDelegation(
+    instance: FhevmInstance,
+    parameters: {
+      contractAddresses: string[];
+      // Public key of the keypair generated by the delegate
+      publicKey: string;
+      delegatedAccount: `0x${string}`;
+      signer: FhevmSignerLike;
+      durationDays?: number;
+    },
+  ): Promise<FhevmDecryptionDelegationType> {
+    if (!ethers.isAddress(parameters.delegatedAccount)) {
+      throw new TypeError(`Invalid address ${parameters.delegatedAccount}`);
+    }
+    return (await FhevmDecryptionSignature.#sign(
+      instance,
+      parameters.contractAddresses,
+      parameters.publicKey,
+      parameters.signer,
+      parameters.durationDays ?? DEFAULT_SIGNATURE_DURATION_DAYS,
+      parameters.delegatedAccount,
+    )) as FhevmDecryptionDelegationType;
+  }
+
+  /**
+   * Used by the delegate to turn a delegation received from the delegator
+   * into a signature, with the private key of the delegated keypair.
+   */
+  static fromDelegation(delegation: FhevmDecryptionDelegationType, privateKey: string): FhevmDecryptionSignature {
+    if (!delegation.delegatedAccount || delegation.eip712?.primaryType !== DELEGATED_PRIMARY_TYPE) {
+      throw new TypeError("Invalid FhevmDecryptionDelegationType");
+    }
+    return new FhevmDecryptionSignature({ ...delegation, privateKey });
+  }
+
   static async loadOrSign(
     instance: FhevmInstance,
     contractAddresses: string[],
-    signer: ethers.JsonRpcSigner,
+    signer: FhevmSignerLike,
     storage: GenericStringStorage,
     keyPair?: { publicKey: string; privateKey: string },
-  ): Promise<FhevmDecryptionSignature | null> {
-    const userAddress = (await signer.getAddress()) as `0x${string}`;
+    options?: FhevmDecryptionSignatureOptions,
+  ): Promise<FhevmDecryptionSignature> {
+    const typedDataSigner = toFhevmTypedDataSigner(signer);
+    const userAddress = (await typedDataSigner.getAddress()) as `0x${string}`;
 
     const cached: FhevmDecryptionSignature | null = await FhevmDecryptionSignature.loadFromGenericStringStorage(
       storage,
@@ -275,21 +557,35 @@ export class FhevmDecryptionSignature {
       keyPair?.publicKey,
     );
 
-    if (cached) {
+    // Expiring signatures are renewed ahead of time to avoid a wallet prompt
+    // in the middle of a session
+    if (cached && !(options?.renewBeforeSeconds !== undefined && cached.isExpiringSoon(options.renewBeforeSeconds))) {
       return cached;
     }
 
-    const { publicKey, privateKey } = keyPair ?? (instance as any).generateKeypair();
+    const { publicKey, privateKey } =
+      keyPair ??
+      (isFhevmWorkerInstance(instance) ? await instance.generateKeypairAsync() : (instance as any).generateKeypair());
 
-    const sig = await FhevmDecryptionSignature.new(instance, contractAddresses, publicKey, privateKey, signer);
+    // Requested contracts first, then the ones of the renewed signature and
+    // the pre-signed ones as long as the relayer limit allows
+    const signedContractAddresses = _mergeContractAddresses(
+      contractAddresses,
+      cached?.contractAddresses ?? [],
+      options?.preSignContractAddresses ?? [],
+    );
 
-    if (!sig) {
-      return null;
-    }
+    const sig = await FhevmDecryptionSignature.new(
+      instance,
+      signedContractAddresses,
+      publicKey,
+      privateKey,
+      typedDataSigner,
+      options,
+    );
 
     await sig.saveToGenericStringStorage(storage, instance, Boolean(keyPair?.publicKey));
 
     return sig;
   }
 }
-
@@ -0,0 +1,118 @@
+import { EnumerableStringStorage } from "./storage/GenericStringStorage.js";
+import { FhevmDecryptionSignature } from "./FhevmDecryptionSignature.js";
+
+/**
+ * Public description of a stored signature. The private key is deliberately
+ * left out, use `FhevmDecryptionSignatureManager.get` to load the signature.
+ */
+export type FhevmDecryptionSignatureInfo = {
+  // Storage key of the entry
+  key: string;
+  userAddress: `0x${string}`;
+  contractAddresses: `0x${string}`[];
+  publicKey: string;
+  startTimestamp: number;
+  durationDays: number;
+  expiresAt: number;
+  remainingSeconds: number;
+  isValid: boolean;
+};
+
+function _sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function _sameContractSet(a: readonly string[], b: readonly string[]) {
+  const setA = new Set(a.map(x => x.toLowerCase()));
+  const setB = new Set(b.map(x => x.toLowerCase()));
+  return setA.size === setB.size && [...setA].every(x => setB.has(x));
+}
+
+/**
+ * Lists, inspects and revokes the decryption signatures saved by
+ * `FhevmDecryptionSignature.loadOrSign` in an enumerable storage. Entries
+ * that are not signatures are ignored.
+ */
+export class FhevmDecryptionSignatureManager {
+  #storage: EnumerableStringStorage;
+
+  constructor(storage: EnumerableStringStorage) {
+    this.#storage = storage;
+  }
+
+  async get(key: string): Promise<FhevmDecryptionSignature | null> {
+    const value = await this.#storage.getItem(key);
+    if (!value) {
+      return null;
+    }
+    try {
+      return FhevmDecryptionSignature.fromJSON(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stored signatures, optionally restricted to `userAddress` and to the
+   * signatures covering exactly `contractAddresses`. Expired ones included.
+   */
+  async list(filter?: {
+    userAddress?: string;
+    contractAddresses?: readonly string[];
+  }): Promise<FhevmDecryptionSignatureInfo[]> {
+    const infos: FhevmDecryptionSignatureInfo[] = [];
+    for (const key of await this.#storage.keys()) {
+      // Keys are `<userAddress>:<EIP-712 hash>`
+      if (filter?.userAddress && !key.toLowerCase().startsWith(`${filter.userAddress.toLowerCase()}:`)) {
+        continue;
+      }
+      const sig = await this.get(key);
+      if (!sig) {
+        continue;
+      }
+      if (filter?.userAddress && !_sameAddress(sig.userAddress, filter.userAddress)) {
+        continue;
+      }
+      if (filter?.contractAddresses && !_sameContractSet(sig.contractAddresses, filter.contractAddresses)) {
+        continue;
+      }
+      infos.push({
+        key,
+        userAddress: sig.userAddress,
+        contractAddresses: sig.contractAddresses,
+        publicKey: sig.publicKey,
+        startTimestamp: sig.startTimestamp,
+        durationDays: sig.durationDays,
+        expiresAt: sig.expiresAt,
+        remainingSeconds: sig.remainingSeconds,
+        isValid: sig.isValid(),
+      });
+    }
+    return infos.sort((a, b) => a.expiresAt - b.expiresAt);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.#storage.removeItem(key);
+  }
+
+  /**
+   * Deletes every signature of `userAddress`, e.g. on logout or account
+   * switch. Returns the number of deleted entries.
+   */
+  async clear(userAddress: string): Promise<number> {
+    const infos = await this.list({ userAddress });
+    for (const info of infos) {
+      await this.#storage.removeItem(info.key);
+    }
+    return infos.length;
+  }
+
+  // Deletes expired signatures, returns the number of deleted entries
+  async removeExpired(userAddress?: string): Promise<number> {
+    const expired = (await this.list({ userAddress })).filter(info => !info.isValid);
+    for (const info of expired) {
+      await this.#storage.removeItem(info.key);
+    }
+    return expired.length;
+  }
+}
@@ -1,6 +1,16 @@
-export * from "../internal/fhevm";
-export * from "../internal/RelayerSDKLoader";
-export * from "../internal/PublicKeyStorage";
-export * from "../internal/fhevmTypes";
-export * from "../internal/constants";
-
+export * from "../internal/fhevm.js";
+export * from "../internal/FhevmInstancePool.js";
+export * from "../internal/errors.js";
+export * from "../internal/chains.js";
+export * from "../internal/logger.js";
+export * from "../internal/retry.js";
+export * from "../internal/RelayerSDKLoader.js";
+export * from "../internal/PublicKeyStorage.js";
+export * from "../internal/fhevmTypes.js";
+export * from "../internal/constants.js";
+export * from "../internal/worker/FhevmWorker.js";
+export * from "../internal/signer.js";
+export * from "../internal/publicDecrypt.js";
+export * from "../internal/batchDecrypt.js";
+export * from "../internal/decryptSession.js";
+export * from "../internal/encryptedInput.js";
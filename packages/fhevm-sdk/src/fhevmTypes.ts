@@ -1,12 +1,14 @@
 import type { FhevmInstance as _FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
 import type { HandleContractPair as _HandleContractPair } from "@zama-fhe/relayer-sdk/bundle";
 import type { UserDecryptResults as _DecryptedResults } from "@zama-fhe/relayer-sdk/bundle";
+import type { PublicDecryptResults as _PublicDecryptResults } from "@zama-fhe/relayer-sdk/bundle";
 import type { FhevmInstanceConfig as _FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
 
 export type FhevmInstance = _FhevmInstance;
 export type FhevmInstanceConfig = _FhevmInstanceConfig;
 export type HandleContractPair = _HandleContractPair;
 export type DecryptedResults = _DecryptedResults;
+export type PublicDecryptResults = _PublicDecryptResults;
 
 export type FhevmDecryptionSignatureType = {
   publicKey: string;
@@ -17,6 +19,13 @@ export type FhevmDecryptionSignatureType = {
   userAddress: `0x${string}`;
   contractAddresses: `0x${string}`[];
   eip712: EIP712Type;
+  // Set on delegated signatures: `userAddress` (the delegator) lets this account decrypt
+  delegatedAccount?: `0x${string}`;
+};
+
+// Delegated signature as sent by the delegator, without the delegate private key
+export type FhevmDecryptionDelegationType = Omit<FhevmDecryptionSignatureType, "privateKey" | "delegatedAccount"> & {
+  delegatedAccount: `0x${string}`;
 };
 
 export type EIP712Type = {
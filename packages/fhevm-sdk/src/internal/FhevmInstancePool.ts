@@ -0,0 +1,257 @@
+import type { FhevmRelayerStatusType } from "./fhevmTypes.js";
+import { FhevmAbortError } from "./errors.js";
+import { scopeFhevmLogger } from "./logger.js";
+import { getFhevmChainConfig, isFhevmChainSupported } from "./chains.js";
+import { resolve } from "./resolve.js";
+import { createFhevmInstance, CreateFhevmInstanceParameters } from "./fhevm.js";
+import { isFhevmWorkerInstance } from "./worker/FhevmWorker.js";
+import { FhevmInstance } from "../fhevmTypes.js";
+
+// Options of the first caller, used for the whole life of the instance
+type FhevmInstancePoolOptions = Pick<
+  CreateFhevmInstanceParameters,
+  "publicKeyStore" | "loader" | "mock" | "logger"
+>;
+
+const POOL_OPTION_NAMES = [
+  "publicKeyStore",
+  "loader",
+  "mock",
+  "logger",
+] as const;
+
+type FhevmInstancePoolEntry = {
+  key: string;
+  chainId: number;
+  options: FhevmInstancePoolOptions;
+  promise: Promise<FhevmInstance>;
+  instance?: FhevmInstance;
+  // Aborts the shared creation once no consumer is left
+  controller: AbortController;
+  refCount: number;
+  status?: FhevmRelayerStatusType;
+  listeners: Set<(status: FhevmRelayerStatusType) => void>;
+};
+
+const __pool = new Map<string, FhevmInstancePoolEntry>();
+
+/**
+ * A reference to a pooled instance. `release` must be called once the
+ * instance is no longer used, the last release disposes the instance.
+ */
+export type FhevmInstanceLease = {
+  key: string;
+  chainId: number;
+  instance: FhevmInstance;
+  release: () => void;
+};
+
+export function fhevmInstancePoolKey(chainId: number, aclAddress: string) {
+  return `${chainId}:${aclAddress.toLowerCase()}`;
+}
+
+function _poolAclAddress(
+  chainId: number,
+  isMock: boolean,
+  parameters: CreateFhevmInstanceParameters
+): string {
+  if (isMock) {
+    return parameters.mock?.metadata?.ACLAddress ?? "local";
+  }
+  // Unsupported chains fail during creation with a FHEVM_UNSUPPORTED_CHAIN
+  // error, the entry is then removed from the pool
+  return isFhevmChainSupported(chainId)
+    ? getFhevmChainConfig(chainId).aclContractAddress
+    : "unsupported";
+}
+
+function _dispose(entry: FhevmInstancePoolEntry) {
+  if (__pool.get(entry.key) === entry) {
+    __pool.delete(entry.key);
+  }
+  entry.listeners.clear();
+  entry.controller.abort();
+}
+
+function _waitFor<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new FhevmAbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new FhevmAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (e) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(e);
+      }
+    );
+  });
+}
+
+/**
+ * Returns a lease on the instance of the chain behind `parameters.provider`,
+ * creating it if needed. Instances are shared per chain id and ACL address:
+ * concurrent calls for the same chain wait for a single creation.
+ *
+ * `parameters.signal` only cancels the wait of this caller, the creation
+ * itself is aborted when every consumer has released its lease.
+ *
+ * The `publicKeyStore`, `loader`, `mock` and `logger` options of the caller
+ * creating an instance are used for its whole life: later callers sharing it
+ * get a "pool.options-ignored" warning when they pass different ones.
+ */
+export async function acquireFhevmInstance(
+  parameters: CreateFhevmInstanceParameters
+): Promise<FhevmInstanceLease> {
+  const { signal, onStatusChange } = parameters;
+  const log = scopeFhevmLogger(parameters.logger, "FhevmInstancePool");
+
+  const resolved = await resolve(parameters.provider, parameters.mockChains);
+  const { chainId, isMock } = resolved;
+  if (signal.aborted) {
+    throw new FhevmAbortError();
+  }
+
+  const key =
+    fhevmInstancePoolKey(
+      chainId,
+      _poolAclAddress(chainId, isMock, parameters)
+    ) + (parameters.worker ? ":worker" : "");
+
+  let entry = __pool.get(key);
+  if (entry) {
+    log.debug("pool.joined", { data: { key, refCount: entry.refCount + 1 } });
+    const existing = entry.options;
+    const ignored = POOL_OPTION_NAMES.filter(
+      (name) =>
+        parameters[name] !== undefined && parameters[name] !== existing[name]
+    );
+    if (ignored.length > 0) {
+      log.warn("pool.options-ignored", {
+        message:
+          "The pooled instance keeps the options of the caller that created it",
+        data: { key, options: ignored },
+      });
+    }
+  } else {
+    const controller = new AbortController();
+    const newEntry: FhevmInstancePoolEntry = {
+      key,
+      chainId,
+      options: {
+        publicKeyStore: parameters.publicKeyStore,
+        loader: parameters.loader,
+        mock: parameters.mock,
+        logger: parameters.logger,
+      },
+      controller,
+      refCount: 0,
+      listeners: new Set(),
+      promise: undefined as unknown as Promise<FhevmInstance>,
+    };
+    newEntry.promise = createFhevmInstance(
+      {
+        ...parameters,
+        signal: controller.signal,
+        onStatusChange: (status) => {
+          newEntry.status = status;
+          for (const listener of newEntry.listeners) {
+            listener(status);
+          }
+        },
+      },
+      resolved
+    ).then(
+      (instance) => {
+        newEntry.instance = instance;
+        return instance;
+      },
+      (e) => {
+        // Failed creations are not cached, the next call retries
+        if (__pool.get(key) === newEntry) {
+          __pool.delete(key);
+        }
+        throw e;
+      }
+    );
+    // Rejections are reported to every consumer by `_waitFor`
+    newEntry.promise.catch(() => {});
+    __pool.set(key, newEntry);
+    entry = newEntry;
+    log.debug("pool.created", { data: { key } });
+  }
+
+  const thisEntry = entry;
+  thisEntry.refCount++;
+  if (onStatusChange) {
+    thisEntry.listeners.add(onStatusChange);
+    // Replay the progress of an ongoing creation
+    if (thisEntry.status && !thisEntry.instance) {
+      onStatusChange(thisEntry.status);
+    }
+  }
+
+  let released = false;
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    if (onStatusChange) {
+      thisEntry.listeners.delete(onStatusChange);
+    }
+    thisEntry.refCount--;
+    if (thisEntry.refCount === 0) {
+      log.debug("pool.disposed", { data: { key } });
+      _dispose(thisEntry);
+      if (thisEntry.instance && isFhevmWorkerInstance(thisEntry.instance)) {
+        thisEntry.instance.terminate();
+      }
+    }
+  };
+
+  try {
+    const instance = await _waitFor(thisEntry.promise, signal);
+    if (onStatusChange) {
+      thisEntry.listeners.delete(onStatusChange);
+    }
+    return { key, chainId, instance, release };
+  } catch (e) {
+    release();
+    throw e;
+  }
+}
+
+export type FhevmInstancePoolEntryInfo = {
+  key: string;
+  chainId: number;
+  refCount: number;
+  ready: boolean;
+};
+
+export function getFhevmInstancePoolEntries(): FhevmInstancePoolEntryInfo[] {
+  return Array.from(__pool.values()).map((entry) => ({
+    key: entry.key,
+    chainId: entry.chainId,
+    refCount: entry.refCount,
+    ready: entry.instance !== undefined,
+  }));
+}
+
+/**
+ * Drops the pooled instances of `chainId`, or all of them. Pending creations
+ * are cancelled, outstanding leases keep their instance and the next
+ * acquisition creates a new one.
+ */
+export function disposeFhevmInstances(chainId?: number) {
+  for (const entry of Array.from(__pool.values())) {
+    if (chainId === undefined || entry.chainId === chainId) {
+      _dispose(entry);
+    }
+  }
+}
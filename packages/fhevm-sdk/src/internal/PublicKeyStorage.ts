@@ -1,4 +1,13 @@
-import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { SDK_VERSION } from "./constants.js";
+import { FhevmLogger, scopeFhevmLogger } from "./logger.js";
+import {
+  FhevmPublicKeyCacheMetadata,
+  FhevmPublicParamsRecord,
+  FhevmPublicKeyRecord,
+  PublicKeyInMemoryStore,
+  PublicKeyIndexedDBStore,
+  PublicKeyStore,
+} from "../storage/PublicKeyStore.js";
 
 type FhevmStoredPublicKey = {
   publicKeyId: string;
@@ -10,43 +19,24 @@ type FhevmStoredPublicParams = {
   publicParams: Uint8Array;
 };
 
-interface PublicParamsDB extends DBSchema {
-  publicKeyStore: {
-    key: string;
-    value: {
-      acl: `0x${string}`;
-      value: FhevmStoredPublicKey;
-    };
-  };
-  paramsStore: {
-    key: string;
-    value: {
-      acl: `0x${string}`;
-      value: FhevmStoredPublicParams;
-    };
-  };
-}
-
-let __dbPromise: Promise<IDBPDatabase<PublicParamsDB>> | undefined = undefined;
+let __defaultStore: PublicKeyStore | undefined = undefined;
 
-async function _getDB(): Promise<IDBPDatabase<PublicParamsDB> | undefined> {
-  if (__dbPromise) {
-    return __dbPromise;
+/**
+ * Store used when none is passed explicitly: IndexedDB in the browser,
+ * in-memory (process lifetime) elsewhere.
+ */
+export function getDefaultPublicKeyStore(): PublicKeyStore {
+  if (!__defaultStore) {
+    __defaultStore =
+      typeof window !== "undefined" && typeof indexedDB !== "undefined"
+        ? new PublicKeyIndexedDBStore()
+        : new PublicKeyInMemoryStore();
   }
-  if (typeof window === "undefined") {
-    return undefined;
-  }
-  __dbPromise = openDB<PublicParamsDB>("fhevm", 1, {
-    upgrade(db) {
-      if (!db.objectStoreNames.contains("paramsStore")) {
-        db.createObjectStore("paramsStore", { keyPath: "acl" });
-      }
-      if (!db.objectStoreNames.contains("publicKeyStore")) {
-        db.createObjectStore("publicKeyStore", { keyPath: "acl" });
-      }
-    },
-  });
-  return __dbPromise;
+  return __defaultStore;
+}
+
+export function setDefaultPublicKeyStore(store: PublicKeyStore | undefined) {
+  __defaultStore = store;
 }
 
 type FhevmInstanceConfigPublicKey = {
@@ -54,13 +44,17 @@ type FhevmInstanceConfigPublicKey = {
   id: string | null;
 };
 
+// The relayer SDK requires the 2048 bits CRS, other sizes are optional
 type FhevmInstanceConfigPublicParams = {
-  "2048": {
-    publicParamsId: string;
-    publicParams: Uint8Array;
-  };
+  [bits: number]: FhevmStoredPublicParams;
+  "2048": FhevmStoredPublicParams;
 };
 
+// `instanceof` fails on arrays structured-cloned from another realm
+function isUint8Array(value: unknown): value is Uint8Array {
+  return Object.prototype.toString.call(value) === "[object Uint8Array]";
+}
+
 function assertFhevmStoredPublicKey(
   value: unknown
 ): asserts value is FhevmStoredPublicKey | null {
@@ -79,7 +73,7 @@ function assertFhevmStoredPublicKey(
   if (!("publicKey" in value)) {
     throw new Error(`FhevmStoredPublicKey.publicKey does not exist`);
   }
-  if (!(value.publicKey instanceof Uint8Array)) {
+  if (!isUint8Array(value.publicKey)) {
     throw new Error(`FhevmStoredPublicKey.publicKey must be a Uint8Array`);
   }
 }
@@ -102,85 +96,307 @@ function assertFhevmStoredPublicParams(
   if (!("publicParams" in value)) {
     throw new Error(`FhevmStoredPublicParams.publicParams does not exist`);
   }
-  if (!(value.publicParams instanceof Uint8Array)) {
+  if (!isUint8Array(value.publicParams)) {
     throw new Error(
       `FhevmStoredPublicParams.publicParams must be a Uint8Array`
     );
   }
 }
 
-export async function publicKeyStorageGet(aclAddress: `0x${string}`): Promise<{
+/**
+ * Key ids currently advertised by a relayer through its `/v1/keyurl`
+ * endpoint.
+ */
+export type FhevmRelayerKeyIds = {
+  publicKeyId: string;
+  // CRS ids by size in bits, e.g. { 2048: "..." }
+  publicParamsIds: Record<number, string>;
+};
+
+export async function fetchFhevmRelayerKeyIds(
+  relayerUrl: string,
+  options?: { timeoutMs?: number }
+): Promise<FhevmRelayerKeyIds> {
+  const url = `${relayerUrl.replace(/\/+$/, "")}/v1/keyurl`;
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(options?.timeoutMs ?? 10000),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status} on ${url}`);
+  }
+  const json = await response.json();
+  const publicKeyId =
+    json?.response?.fhe_key_info?.[0]?.fhe_public_key?.data_id;
+  if (typeof publicKeyId !== "string") {
+    throw new Error(`Unexpected ${url} response: missing fhe_public_key`);
+  }
+  const publicParamsIds: Record<number, string> = {};
+  for (const [bits, item] of Object.entries(json.response.crs ?? {})) {
+    const id = (item as { data_id?: unknown } | null)?.data_id;
+    if (typeof id === "string") {
+      publicParamsIds[Number(bits)] = id;
+    }
+  }
+  return { publicKeyId, publicParamsIds };
+}
+
+/**
+ * Returns the cached public key and public params of `aclAddress`.
+ *
+ * Entries written by another SDK version are dropped. When `relayerUrl` is
+ * given, cached ids are compared with the ones currently advertised by the
+ * relayer and stale entries are dropped as well, so a key rotation is picked
+ * up on the next instance creation. If the relayer cannot be reached the
+ * cache is used as is.
+ */
+export async function publicKeyStorageGet(
+  aclAddress: `0x${string}`,
+  options?: {
+    relayerUrl?: string;
+    logger?: FhevmLogger;
+    store?: PublicKeyStore;
+  }
+): Promise<{
   publicKey?: FhevmInstanceConfigPublicKey;
   publicParams: FhevmInstanceConfigPublicParams | null;
 }> {
-  const db = await _getDB();
-  if (!db) {
-    return { publicParams: null };
-  }
+  const store = options?.store ?? getDefaultPublicKeyStore();
+  const log = scopeFhevmLogger(options?.logger, "PublicKeyStorage");
 
-  let storedPublicKey: FhevmStoredPublicKey | null = null;
+  let storedPublicKey: FhevmPublicKeyRecord | null = null;
   try {
-    const pk = await db.get("publicKeyStore", aclAddress);
-    if (pk?.value) {
-      assertFhevmStoredPublicKey(pk.value);
-      storedPublicKey = pk.value;
+    const pk = await store.getPublicKey(aclAddress);
+    if (pk) {
+      assertFhevmStoredPublicKey(pk);
+      storedPublicKey = pk;
     }
   } catch {
     //
   }
 
-  let storedPublicParams: FhevmStoredPublicParams | null = null;
+  let storedPublicParams: FhevmPublicParamsRecord[] = [];
   try {
-    const pp = await db.get("paramsStore", aclAddress);
-    if (pp?.value) {
-      assertFhevmStoredPublicParams(pp.value);
-      storedPublicParams = pp.value;
-    }
+    const pps = await store.getPublicParams(aclAddress);
+    storedPublicParams = pps.filter((pp) => {
+      try {
+        assertFhevmStoredPublicParams(pp);
+        return true;
+      } catch {
+        return false;
+      }
+    });
   } catch {
     //
   }
 
-  const publicKeyData = storedPublicKey?.publicKey;
-  const publicKeyId = storedPublicKey?.publicKeyId;
-  const publicParams = storedPublicParams
-    ? {
-        "2048": storedPublicParams,
+  const isStale = (entry: FhevmPublicKeyCacheMetadata) =>
+    entry.sdkVersion !== SDK_VERSION;
+
+  let keyIds: FhevmRelayerKeyIds | undefined = undefined;
+  if (
+    options?.relayerUrl &&
+    (storedPublicKey !== null || storedPublicParams.length > 0)
+  ) {
+    try {
+      keyIds = await fetchFhevmRelayerKeyIds(options.relayerUrl);
+    } catch (e) {
+      log.warn("cache.check-failed", {
+        message: "Unable to fetch the relayer key ids, using cached keys",
+        error: e,
+        data: { acl: aclAddress },
+      });
+    }
+  }
+
+  if (
+    storedPublicKey &&
+    (isStale(storedPublicKey) ||
+      (keyIds && keyIds.publicKeyId !== storedPublicKey.publicKeyId))
+  ) {
+    log.info("cache.invalidated", {
+      data: {
+        acl: aclAddress,
+        kind: "publicKey",
+        id: storedPublicKey.publicKeyId,
+        sdkVersion: storedPublicKey.sdkVersion,
+      },
+    });
+    try {
+      await store.removePublicKey(aclAddress);
+    } catch (e) {
+      log.warn("cache.invalidate-failed", {
+        error: e,
+        data: { acl: aclAddress, kind: "publicKey" },
+      });
+    }
+    // Treated as missing even when it could not be removed
+    storedPublicKey = null;
+  }
+
+  const publicParams: Record<number, FhevmStoredPublicParams> = {};
+  for (const pp of storedPublicParams) {
+    if (
+      isStale(pp) ||
+      (keyIds && keyIds.publicParamsIds[pp.bits] !== pp.publicParamsId)
+    ) {
+      log.info("cache.invalidated", {
+        data: {
+          acl: aclAddress,
+          kind: "publicParams",
+          bits: pp.bits,
+          id: pp.publicParamsId,
+          sdkVersion: pp.sdkVersion,
+        },
+      });
+      try {
+        await store.removePublicParams(aclAddress, pp.bits);
+      } catch (e) {
+        log.warn("cache.invalidate-failed", {
+          error: e,
+          data: { acl: aclAddress, kind: "publicParams", bits: pp.bits },
+        });
       }
-    : null;
+      continue;
+    }
+    publicParams[pp.bits] = {
+      publicParamsId: pp.publicParamsId,
+      publicParams: pp.publicParams,
+    };
+  }
 
   let publicKey: FhevmInstanceConfigPublicKey | undefined = undefined;
 
-  if (publicKeyId && publicKeyData) {
+  if (storedPublicKey) {
     publicKey = {
-      id: publicKeyId,
-      data: publicKeyData,
+      id: storedPublicKey.publicKeyId,
+      data: storedPublicKey.publicKey,
     };
   }
 
   return {
     ...(publicKey !== undefined && { publicKey }),
-    publicParams,
+    publicParams: publicParams[2048]
+      ? (publicParams as FhevmInstanceConfigPublicParams)
+      : null,
   };
 }
 
 export async function publicKeyStorageSet(
   aclAddress: `0x${string}`,
   publicKey: FhevmStoredPublicKey | null,
-  publicParams: FhevmStoredPublicParams | null
+  publicParams: Record<number, FhevmStoredPublicParams | null> | null,
+  options?: { store?: PublicKeyStore }
 ) {
   assertFhevmStoredPublicKey(publicKey);
-  assertFhevmStoredPublicParams(publicParams);
-
-  const db = await _getDB();
-  if (!db) {
-    return;
+  for (const pp of Object.values(publicParams ?? {})) {
+    assertFhevmStoredPublicParams(pp);
   }
 
+  const store = options?.store ?? getDefaultPublicKeyStore();
+
+  const metadata: FhevmPublicKeyCacheMetadata = {
+    acl: aclAddress,
+    fetchedAt: Date.now(),
+    sdkVersion: SDK_VERSION,
+  };
+
   if (publicKey) {
-    await db.put("publicKeyStore", { acl: aclAddress, value: publicKey });
+    const current = await store.getPublicKey(aclAddress);
+    // Keep the original fetch time when the key did not change
+    if (
+      current?.publicKeyId !== publicKey.publicKeyId ||
+      current.sdkVersion !== SDK_VERSION
+    ) {
+      await store.setPublicKey({
+        ...metadata,
+        publicKeyId: publicKey.publicKeyId,
+        publicKey: publicKey.publicKey,
+      });
+    }
   }
 
-  if (publicParams) {
-    await db.put("paramsStore", { acl: aclAddress, value: publicParams });
+  const currentPublicParams = await store.getPublicParams(aclAddress);
+  for (const [bits, pp] of Object.entries(publicParams ?? {})) {
+    if (!pp) {
+      continue;
+    }
+    const current = currentPublicParams.find((c) => c.bits === Number(bits));
+    if (
+      current?.publicParamsId !== pp.publicParamsId ||
+      current.sdkVersion !== SDK_VERSION
+    ) {
+      await store.setPublicParams({
+        ...metadata,
+        bits: Number(bits),
+        publicParamsId: pp.publicParamsId,
+        publicParams: pp.publicParams,
+      });
+    }
+  }
+}
+
+/**
+ * Description of a cached public key or public params entry, without the
+ * key material itself.
+ */
+export type FhevmPublicKeyCacheEntry = FhevmPublicKeyCacheMetadata & {
+  kind: "publicKey" | "publicParams";
+  id: string;
+  // Size of the public params in bits, only set for "publicParams" entries
+  bits?: number;
+  byteLength: number;
+};
+
+export async function publicKeyStorageEntries(
+  aclAddress?: `0x${string}`,
+  options?: { store?: PublicKeyStore }
+): Promise<FhevmPublicKeyCacheEntry[]> {
+  const store = options?.store ?? getDefaultPublicKeyStore();
+  const aclAddresses = aclAddress ? [aclAddress] : await store.aclAddresses();
+
+  const entries: FhevmPublicKeyCacheEntry[] = [];
+  for (const acl of aclAddresses) {
+    const pk = await store.getPublicKey(acl);
+    if (pk) {
+      entries.push({
+        kind: "publicKey",
+        acl: pk.acl,
+        id: pk.publicKeyId,
+        fetchedAt: pk.fetchedAt,
+        sdkVersion: pk.sdkVersion,
+        byteLength: pk.publicKey.byteLength,
+      });
+    }
+    for (const pp of await store.getPublicParams(acl)) {
+      entries.push({
+        kind: "publicParams",
+        acl: pp.acl,
+        id: pp.publicParamsId,
+        bits: pp.bits,
+        fetchedAt: pp.fetchedAt,
+        sdkVersion: pp.sdkVersion,
+        byteLength: pp.publicParams.byteLength,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Removes the cached keys of `aclAddress`, or the whole cache when no
+ * address is given.
+ */
+export async function publicKeyStorageClear(
+  aclAddress?: `0x${string}`,
+  options?: { store?: PublicKeyStore }
+) {
+  const store = options?.store ?? getDefaultPublicKeyStore();
+  const aclAddresses = aclAddress ? [aclAddress] : await store.aclAddresses();
+
+  for (const acl of aclAddresses) {
+    await store.removePublicKey(acl);
+    for (const pp of await store.getPublicParams(acl)) {
+      await store.removePublicParams(acl, pp.bits);
+    }
   }
 }
@@ -1,85 +1,330 @@
-import { FhevmRelayerSDKType, FhevmWindowType } from "./fhevmTypes";
-import { SDK_CDN_URL } from "./constants";
+import { FhevmRelayerSDKType, FhevmWindowType } from "./fhevmTypes.js";
+import { SDK_CDN_URL } from "./constants.js";
+import { FhevmLoaderError } from "./errors.js";
+import { FhevmLogger, FhevmScopedLogger, scopeFhevmLogger } from "./logger.js";
 
 type TraceType = (message?: unknown, ...optionalParams: unknown[]) => void;
 
+export type RelayerSDKScriptSource =
+  | string
+  | {
+      url: string;
+      // Subresource Integrity hash, e.g. "sha384-..."
+      integrity?: string;
+      crossOrigin?: "anonymous" | "use-credentials";
+    };
+
+export type RelayerSDKLoaderOptions = {
+  // Defaults to forwarding validation traces to `logger` at the debug level
+  trace?: TraceType;
+  logger?: FhevmLogger;
+  /**
+   * Script URLs tried in order (e.g. a self-hosted copy first, the Zama CDN
+   * as fallback). Defaults to `[SDK_CDN_URL]`.
+   */
+  sources?: readonly RelayerSDKScriptSource[];
+  // Per-script timeout in milliseconds. Defaults to 30s.
+  timeoutMs?: number;
+  // Number of additional passes over `sources` after the first one fails.
+  retries?: number;
+  // Delay before the first retry, doubled after each failed pass.
+  retryDelayMs?: number;
+  /**
+   * Bundled-import mode: returns the relayer SDK module (typically
+   * `() => import("@zama-fhe/relayer-sdk/web")`). No script is injected.
+   */
+  bundled?: () => Promise<unknown>;
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 1;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+function toScriptSource(source: RelayerSDKScriptSource) {
+  return typeof source === "string" ? { url: source } : source;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
 export class RelayerSDKLoader {
-  private _trace?: TraceType;
+  private _trace: TraceType;
+  private _log: FhevmScopedLogger;
+  private _sources: readonly RelayerSDKScriptSource[];
+  private _timeoutMs: number;
+  private _retries: number;
+  private _retryDelayMs: number;
+  private _bundled?: () => Promise<unknown>;
 
-  constructor(options: { trace?: TraceType }) {
-    this._trace = options.trace;
+  constructor(options: RelayerSDKLoaderOptions = {}) {
+    this._log = scopeFhevmLogger(options.logger, "RelayerSDKLoader");
+    this._trace =
+      options.trace ??
+      ((message) => this._log.debug("trace", { message: String(message) }));
+    this._sources =
+      options.sources && options.sources.length > 0
+        ? options.sources
+        : [SDK_CDN_URL];
+    this._timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this._retries = Math.max(0, options.retries ?? DEFAULT_RETRIES);
+    this._retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this._bundled = options.bundled;
   }
 
   public isLoaded() {
     if (typeof window === "undefined") {
-      throw new Error("RelayerSDKLoader: can only be used in the browser.");
+      throw new FhevmLoaderError(
+        "RELAYER_SDK_UNAVAILABLE",
+        "RelayerSDKLoader: can only be used in the browser."
+      );
     }
     return isFhevmWindowType(window, this._trace);
   }
 
-  public load(): Promise<void> {
-    console.log("[RelayerSDKLoader] load...");
+  public async load(): Promise<void> {
+    this._log.debug("load.start");
     // Ensure this only runs in the browser
     if (typeof window === "undefined") {
-      console.log("[RelayerSDKLoader] window === undefined");
-      return Promise.reject(
-        new Error("RelayerSDKLoader: can only be used in the browser.")
+      this._log.error("load.no-window");
+      throw new FhevmLoaderError(
+        "RELAYER_SDK_UNAVAILABLE",
+        "RelayerSDKLoader: can only be used in the browser."
       );
     }
 
     if ("relayerSDK" in window) {
       if (!isFhevmRelayerSDKType(window.relayerSDK, this._trace)) {
-        console.log("[RelayerSDKLoader] window.relayerSDK === undefined");
-        throw new Error("RelayerSDKLoader: Unable to load FHEVM Relayer SDK");
+        this._log.error("load.invalid-sdk", {
+          message: "window.relayerSDK is not a valid relayer SDK",
+        });
+        throw new FhevmLoaderError(
+          "RELAYER_SDK_INVALID",
+          "RelayerSDKLoader: Unable to load FHEVM Relayer SDK"
+        );
       }
-      return Promise.resolve();
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      const existingScript = document.querySelector(
-        `script[src="${SDK_CDN_URL}"]`
-      );
-      if (existingScript) {
-        if (!isFhevmWindowType(window, this._trace)) {
-          reject(
-            new Error(
-              "RelayerSDKLoader: window object does not contain a valid relayerSDK object."
-            )
-          );
+    if (this._bundled) {
+      return this._loadBundled(this._bundled);
+    }
+
+    await this._trySources("load", (source) => this._loadScript(source));
+  }
+
+  /**
+   * Downloads the relayer SDK script with the same sources, timeout, retry
+   * policy and Subresource Integrity check as `load`, and returns its text.
+   * Used by workers, whose `importScripts` offers none of them. Bundled mode
+   * has no script, the sources are used.
+   */
+  public async fetchScript(): Promise<string> {
+    this._log.debug("fetch.start");
+    return this._trySources("fetch", (source) => this._fetchScript(source));
+  }
+
+  // Tries every source in order, then again after each retry delay
+  private async _trySources<T>(
+    operation: "load" | "fetch",
+    tryOne: (source: Exclude<RelayerSDKScriptSource, string>) => Promise<T>
+  ): Promise<T> {
+    const start = Date.now();
+    const errors: unknown[] = [];
+    for (let attempt = 0; attempt <= this._retries; ++attempt) {
+      if (attempt > 0) {
+        const delay = this._retryDelayMs * 2 ** (attempt - 1);
+        this._log.warn(`${operation}.retry`, {
+          data: { attempt, retries: this._retries, delayMs: delay },
+        });
+        await sleep(delay);
+      }
+      for (const source of this._sources) {
+        try {
+          const result = await tryOne(toScriptSource(source));
+          this._log.info(`${operation}.done`, {
+            durationMs: Date.now() - start,
+          });
+          return result;
+        } catch (e) {
+          errors.push(e);
         }
-        resolve();
-        return;
       }
+    }
 
+    const urls = this._sources.map((s) => toScriptSource(s).url).join(", ");
+    const lastError = errors[errors.length - 1];
+    const error = new FhevmLoaderError(
+      lastError instanceof FhevmLoaderError
+        ? lastError.code
+        : "RELAYER_SDK_LOAD_FAILED",
+      `RelayerSDKLoader: Failed to ${operation} Relayer SDK from ${urls} after ${this._retries + 1} attempt(s)`,
+      { cause: lastError }
+    );
+    this._log.error(`${operation}.failed`, {
+      durationMs: Date.now() - start,
+      error,
+    });
+    throw error;
+  }
+
+  private async _loadBundled(bundled: () => Promise<unknown>): Promise<void> {
+    const start = Date.now();
+    this._log.debug("load.bundled.start");
+    const mod = await bundled();
+    if (!isFhevmRelayerSDKType(mod, this._trace)) {
+      throw new FhevmLoaderError(
+        "RELAYER_SDK_INVALID",
+        "RelayerSDKLoader: the bundled module is not a valid Relayer SDK."
+      );
+    }
+    // Module namespace objects are frozen, copy the exports so that
+    // `__initialized__` can be set later on.
+    (window as unknown as FhevmWindowType).relayerSDK = {
+      ...(mod as FhevmRelayerSDKType),
+    };
+    this._log.info("load.done", {
+      durationMs: Date.now() - start,
+      data: { mode: "bundled" },
+    });
+  }
+
+  private async _fetchScript(
+    source: Exclude<RelayerSDKScriptSource, string>
+  ): Promise<string> {
+    const start = Date.now();
+    const data = { url: source.url };
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this._timeoutMs);
+    try {
+      const response = await fetch(source.url, {
+        // Rejects the response when its hash does not match
+        integrity: source.integrity,
+        credentials:
+          source.crossOrigin === "use-credentials" ? "include" : "same-origin",
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const script = await response.text();
+      this._log.debug("script.fetched", {
+        durationMs: Date.now() - start,
+        data,
+      });
+      return script;
+    } catch (e) {
+      if (controller.signal.aborted) {
+        this._log.warn("script.timeout", {
+          durationMs: Date.now() - start,
+          data,
+        });
+        throw new FhevmLoaderError(
+          "RELAYER_SDK_LOAD_TIMEOUT",
+          `RelayerSDKLoader: Timed out after ${this._timeoutMs}ms while fetching Relayer SDK from ${source.url}`
+        );
+      }
+      this._log.warn("script.error", {
+        durationMs: Date.now() - start,
+        data,
+        error: e,
+      });
+      throw new FhevmLoaderError(
+        "RELAYER_SDK_LOAD_FAILED",
+        `RelayerSDKLoader: Failed to fetch Relayer SDK from ${source.url}`,
+        { cause: e }
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private _loadScript(
+    source: Exclude<RelayerSDKScriptSource, string>
+  ): Promise<void> {
+    const existingScript = document.querySelector(
+      `script[src="${source.url}"]`
+    );
+    if (existingScript) {
+      if (isFhevmWindowType(window, this._trace)) {
+        return Promise.resolve();
+      }
+      // Leftover from a previous failed attempt
+      existingScript.remove();
+    }
+
+    const start = Date.now();
+    const data = { url: source.url };
+
+    return new Promise((resolve, reject) => {
       const script = document.createElement("script");
-      script.src = SDK_CDN_URL;
+      script.src = source.url;
       script.type = "text/javascript";
       script.async = true;
+      if (source.integrity) {
+        script.integrity = source.integrity;
+        // SRI on a cross-origin script requires a CORS request
+        script.crossOrigin = source.crossOrigin ?? "anonymous";
+      } else if (source.crossOrigin) {
+        script.crossOrigin = source.crossOrigin;
+      }
+
+      const timeout = setTimeout(() => {
+        this._log.warn("script.timeout", {
+          durationMs: Date.now() - start,
+          data,
+        });
+        script.onload = null;
+        script.onerror = null;
+        script.remove();
+        reject(
+          new FhevmLoaderError(
+            "RELAYER_SDK_LOAD_TIMEOUT",
+            `RelayerSDKLoader: Timed out after ${this._timeoutMs}ms while loading Relayer SDK from ${source.url}`
+          )
+        );
+      }, this._timeoutMs);
 
       script.onload = () => {
+        clearTimeout(timeout);
         if (!isFhevmWindowType(window, this._trace)) {
-          console.log("[RelayerSDKLoader] script onload FAILED...");
+          this._log.error("script.invalid-sdk", {
+            durationMs: Date.now() - start,
+            data,
+          });
+          script.remove();
           reject(
-            new Error(
-              `RelayerSDKLoader: Relayer SDK script has been successfully loaded from ${SDK_CDN_URL}, however, the window.relayerSDK object is invalid.`
+            new FhevmLoaderError(
+              "RELAYER_SDK_INVALID",
+              `RelayerSDKLoader: Relayer SDK script has been successfully loaded from ${source.url}, however, the window.relayerSDK object is invalid.`
             )
           );
+          return;
         }
+        this._log.debug("script.loaded", {
+          durationMs: Date.now() - start,
+          data,
+        });
         resolve();
       };
 
       script.onerror = () => {
-        console.log("[RelayerSDKLoader] script onerror... ");
+        clearTimeout(timeout);
+        this._log.warn("script.error", {
+          durationMs: Date.now() - start,
+          data,
+        });
+        script.remove();
         reject(
-          new Error(
-            `RelayerSDKLoader: Failed to load Relayer SDK from ${SDK_CDN_URL}`
+          new FhevmLoaderError(
+            "RELAYER_SDK_LOAD_FAILED",
+            `RelayerSDKLoader: Failed to load Relayer SDK from ${source.url}`
           )
         );
       };
 
-      console.log("[RelayerSDKLoader] add script to DOM...");
+      this._log.debug("script.append", { data });
       document.head.appendChild(script);
-      console.log("[RelayerSDKLoader] script added!")
     });
   }
 }
@@ -0,0 +1,181 @@
+import {
+  FhevmAbortError,
+  FhevmDecryptError,
+  FhevmError,
+  toFhevmError,
+} from "./errors.js";
+import { FhevmLogger, scopeFhevmLogger } from "./logger.js";
+
+export type FhevmDecryptRequest = {
+  handle: string;
+  contractAddress: `0x${string}`;
+};
+
+export type FhevmDecryptProgress = {
+  decrypted: number;
+  failed: number;
+  total: number;
+};
+
+export type FhevmBatchDecryptResult = {
+  results: Record<string, string | bigint | boolean>;
+  // Error of every handle that could not be decrypted
+  failures: Record<string, FhevmError>;
+};
+
+export const DEFAULT_DECRYPT_CHUNK_SIZE = 32;
+export const DEFAULT_DECRYPT_CONCURRENCY = 2;
+
+// Limits of a single relayer user decryption request
+const MAX_DECRYPT_BITS_PER_REQUEST = 2048;
+const MAX_DECRYPT_CONTRACTS_PER_REQUEST = 10;
+
+// Encrypted bits per FHE type discriminant, stored in the 31st handle byte
+const ENCRYPTED_BITS: Record<number, number> = {
+  0: 2,
+  2: 8,
+  3: 16,
+  4: 32,
+  5: 64,
+  6: 128,
+  7: 160,
+  8: 256,
+};
+
+function _encryptedBits(handle: string): number {
+  const type = parseInt(handle.slice(-4, -2), 16);
+  // Unknown types are left for the relayer to reject
+  return ENCRYPTED_BITS[type] ?? 256;
+}
+
+/**
+ * Splits `requests` in order into chunks of at most `chunkSize` handles that
+ * stay within the relayer limits (2048 encrypted bits, 10 contracts).
+ */
+export function chunkDecryptRequests<T extends FhevmDecryptRequest>(
+  requests: readonly T[],
+  chunkSize: number = DEFAULT_DECRYPT_CHUNK_SIZE
+): T[][] {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new RangeError(`Invalid decryption chunk size ${chunkSize}`);
+  }
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let bits = 0;
+  let contracts = new Set<string>();
+  for (const request of requests) {
+    const requestBits = _encryptedBits(request.handle);
+    const contract = request.contractAddress.toLowerCase();
+    const isFull =
+      chunk.length >= chunkSize ||
+      bits + requestBits > MAX_DECRYPT_BITS_PER_REQUEST ||
+      (!contracts.has(contract) &&
+        contracts.size >= MAX_DECRYPT_CONTRACTS_PER_REQUEST);
+    if (chunk.length > 0 && isFull) {
+      chunks.push(chunk);
+      chunk = [];
+      bits = 0;
+      contracts = new Set();
+    }
+    chunk.push(request);
+    bits += requestBits;
+    contracts.add(contract);
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Decrypts `requests` chunk by chunk with `decryptChunk`, running up to
+ * `concurrency` chunks at a time. A failing chunk does not stop the others,
+ * its handles are reported in `failures`. `onChunk` receives the values of
+ * each completed chunk as soon as they are available. Aborting stops
+ * starting new chunks and rejects with `FhevmAbortError`.
+ */
+export async function decryptInChunks<T extends FhevmDecryptRequest>(
+  requests: readonly T[],
+  decryptChunk: (
+    chunk: T[]
+  ) => Promise<Record<string, string | bigint | boolean>>,
+  options?: {
+    chunkSize?: number;
+    concurrency?: number;
+    onChunk?: (
+      results: Record<string, string | bigint | boolean>,
+      progress: FhevmDecryptProgress
+    ) => void | Promise<void>;
+    signal?: AbortSignal;
+    logger?: FhevmLogger;
+  }
+): Promise<FhevmBatchDecryptResult> {
+  const log = scopeFhevmLogger(options?.logger, "decryptInChunks");
+  const chunks = chunkDecryptRequests(requests, options?.chunkSize);
+  const concurrency = Math.max(
+    1,
+    options?.concurrency ?? DEFAULT_DECRYPT_CONCURRENCY
+  );
+
+  const results: Record<string, string | bigint | boolean> = {};
+  const failures: Record<string, FhevmError> = {};
+  const progress: FhevmDecryptProgress = {
+    decrypted: 0,
+    failed: 0,
+    total: requests.length,
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length && !options?.signal?.aborted) {
+      const index = next++;
+      const chunk = chunks[index];
+      const start = Date.now();
+      const chunkResults: Record<string, string | bigint | boolean> = {};
+      try {
+        const values = await decryptChunk(chunk);
+        for (const { handle } of chunk) {
+          // The relayer SDK keys results by normalized handle
+          const value = values[handle] ?? values[handle.toLowerCase()];
+          if (value === undefined) {
+            failures[handle] = new FhevmDecryptError(
+              "DECRYPT_FAILED",
+              `No decrypted value returned for handle ${handle}`
+            );
+            progress.failed++;
+          } else {
+            chunkResults[handle] = value;
+            progress.decrypted++;
+          }
+        }
+        log.debug("chunk.done", {
+          durationMs: Date.now() - start,
+          data: { chunk: index, handles: chunk.length },
+        });
+      } catch (e) {
+        const err = toFhevmError(e, "decrypt");
+        log.warn("chunk.failed", {
+          durationMs: Date.now() - start,
+          code: err.code,
+          error: err,
+          data: { chunk: index, handles: chunk.length },
+        });
+        for (const { handle } of chunk) {
+          failures[handle] = err;
+        }
+        progress.failed += chunk.length;
+      }
+      Object.assign(results, chunkResults);
+      await options?.onChunk?.(chunkResults, { ...progress });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, chunks.length) }, worker)
+  );
+
+  if (options?.signal?.aborted) {
+    throw new FhevmAbortError();
+  }
+  return { results, failures };
+}
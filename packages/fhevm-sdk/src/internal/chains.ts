@@ -0,0 +1,123 @@
+import { FhevmConfigError } from "./errors.js";
+import { checkIsAddress } from "./resolve.js";
+import { FhevmInstanceConfig } from "../fhevmTypes.js";
+
+/**
+ * Static relayer configuration of a FHEVM host chain. The `network`,
+ * `publicKey` and `publicParams` fields are filled in by `createFhevmInstance`.
+ */
+export type FhevmChainConfig = Omit<
+  FhevmInstanceConfig,
+  "network" | "publicKey" | "publicParams" | "chainId" | "relayerUrl"
+> & {
+  chainId: number;
+  relayerUrl: string;
+};
+
+// Mirrors `SepoliaConfig` of @zama-fhe/relayer-sdk 0.3.0-5 (see SDK_CDN_URL)
+export const FHEVM_SEPOLIA_CHAIN_CONFIG: Readonly<FhevmChainConfig> =
+  Object.freeze({
+    aclContractAddress: "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D",
+    kmsContractAddress: "0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A",
+    inputVerifierContractAddress: "0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0",
+    verifyingContractAddressDecryption:
+      "0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478",
+    verifyingContractAddressInputVerification:
+      "0x483b9dE06E4E4C7D35CCf5837A1668487406D955",
+    chainId: 11155111,
+    gatewayChainId: 10901,
+    relayerUrl: "https://relayer.testnet.zama.org",
+  });
+
+const __chains = new Map<number, Readonly<FhevmChainConfig>>([
+  [FHEVM_SEPOLIA_CHAIN_CONFIG.chainId, FHEVM_SEPOLIA_CHAIN_CONFIG],
+]);
+
+function assertFhevmChainConfig(
+  value: unknown
+): asserts value is FhevmChainConfig {
+  if (!value || typeof value !== "object") {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_CHAIN_CONFIG",
+      "FhevmChainConfig must be an object"
+    );
+  }
+  const c = value as Record<string, unknown>;
+  if (!Number.isInteger(c.chainId) || (c.chainId as number) <= 0) {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_CHAIN_CONFIG",
+      `FhevmChainConfig.chainId must be a positive integer`
+    );
+  }
+  if (
+    !Number.isInteger(c.gatewayChainId) ||
+    (c.gatewayChainId as number) <= 0
+  ) {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_CHAIN_CONFIG",
+      `FhevmChainConfig.gatewayChainId must be a positive integer`
+    );
+  }
+  if (typeof c.relayerUrl !== "string" || c.relayerUrl.length === 0) {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_CHAIN_CONFIG",
+      `FhevmChainConfig.relayerUrl must be a non-empty string`
+    );
+  }
+  for (const name of [
+    "aclContractAddress",
+    "kmsContractAddress",
+    "inputVerifierContractAddress",
+    "verifyingContractAddressDecryption",
+    "verifyingContractAddressInputVerification",
+  ]) {
+    if (!checkIsAddress(c[name])) {
+      throw new FhevmConfigError(
+        "FHEVM_INVALID_CHAIN_CONFIG",
+        `FhevmChainConfig.${name} is not a valid address: ${String(c[name])}`
+      );
+    }
+  }
+}
+
+/**
+ * Registers the relayer configuration of a custom or private FHEVM network.
+ * Registering an already known chain id throws unless `override` is set.
+ */
+export function registerFhevmChain(
+  config: FhevmChainConfig,
+  options?: { override?: boolean }
+) {
+  assertFhevmChainConfig(config);
+  if (__chains.has(config.chainId) && options?.override !== true) {
+    throw new FhevmConfigError(
+      "FHEVM_CHAIN_ALREADY_REGISTERED",
+      `A FHEVM chain config is already registered for chainId=${config.chainId}. Use { override: true } to replace it.`
+    );
+  }
+  __chains.set(config.chainId, Object.freeze({ ...config }));
+}
+
+export function unregisterFhevmChain(chainId: number): boolean {
+  return __chains.delete(chainId);
+}
+
+export function isFhevmChainSupported(chainId: number): boolean {
+  return __chains.has(chainId);
+}
+
+export function getRegisteredFhevmChainIds(): number[] {
+  return Array.from(__chains.keys());
+}
+
+export function getFhevmChainConfig(chainId: number): FhevmChainConfig {
+  const config = __chains.get(chainId);
+  if (!config) {
+    const supported = getRegisteredFhevmChainIds().join(", ");
+    throw new FhevmConfigError(
+      "FHEVM_UNSUPPORTED_CHAIN",
+      `No FHEVM relayer config is registered for chainId=${chainId} (supported: ${supported}). Use registerFhevmChain() to add it.`
+    );
+  }
+  return { ...config };
+}
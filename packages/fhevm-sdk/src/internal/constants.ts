@@ -1,2 +1,3 @@
-export const SDK_CDN_URL =
-  "https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs";
\ No newline at end of file
+export const SDK_VERSION = "0.3.0-5";
+
+export const SDK_CDN_URL = `https://cdn.zama.org/relayer-sdk-js/${SDK_VERSION}/relayer-sdk-js.umd.cjs`;
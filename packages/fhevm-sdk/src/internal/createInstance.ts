@@ -0,0 +1,195 @@
+import { Eip1193Provider } from "ethers";
+import type { FhevmMockOptions, FhevmRelayerStatusType } from "./fhevmTypes.js";
+import { FhevmAbortError, FhevmConfigError, toFhevmError } from "./errors.js";
+import { FhevmLogger, FhevmScopedLogger } from "./logger.js";
+import { getFhevmChainConfig } from "./chains.js";
+import {
+  checkIsAddress,
+  resolve,
+  ResolveResult,
+  tryCreateFhevmMockInstance,
+} from "./resolve.js";
+import {
+  publicKeyStorageGet,
+  publicKeyStorageSet,
+} from "./PublicKeyStorage.js";
+import { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes.js";
+import type { PublicKeyStore } from "../storage/PublicKeyStore.js";
+
+// Part of the relayer SDK module used to create an instance
+export type FhevmRelayerSDKModule = {
+  createInstance: (config: FhevmInstanceConfig) => Promise<FhevmInstance>;
+};
+
+export type FhevmInstanceCreationParameters = {
+  // Network handed to the relayer SDK
+  network: Eip1193Provider | string;
+  // Endpoint of `network`, looked up in `mockChains` when not provided
+  rpcUrl?: string;
+  mockChains?: Record<number, string>;
+  // Chain already resolved by the caller, skips the `eth_chainId` request
+  resolved?: ResolveResult;
+  mock?: FhevmMockOptions;
+  signal?: AbortSignal;
+  onStatusChange?: (status: FhevmRelayerStatusType) => void;
+  logger?: FhevmLogger;
+  publicKeyStore?: PublicKeyStore;
+  // Loads the relayer SDK of the platform, reporting its progress with `notify`
+  loadSDK: (
+    notify: (status: FhevmRelayerStatusType) => void,
+    throwIfAborted: () => void
+  ) => Promise<FhevmRelayerSDKModule>;
+};
+
+type FhevmPublicParamsBits = Parameters<FhevmInstance["getPublicParams"]>[0];
+
+// CRS of every size the instance exposes: the 2048 bits one the relayer SDK
+// requires, and the other cached sizes it was created with
+function instancePublicParams(
+  instance: FhevmInstance,
+  config: FhevmInstanceConfig
+) {
+  const sizes = new Set([
+    2048,
+    ...Object.keys(config.publicParams ?? {}).map(Number),
+  ]);
+  return Object.fromEntries(
+    Array.from(sizes, (bits) => [
+      bits,
+      instance.getPublicParams(bits as FhevmPublicParamsBits),
+    ])
+  );
+}
+
+/**
+ * Logs the outcome of an instance creation, and turns its failures into
+ * `FhevmError`s.
+ */
+export async function logFhevmInstanceCreation(
+  log: FhevmScopedLogger,
+  create: (start: number) => Promise<FhevmInstance>
+): Promise<FhevmInstance> {
+  const start = Date.now();
+  try {
+    const instance = await create(start);
+    log.info("instance.created", { durationMs: Date.now() - start });
+    return instance;
+  } catch (e) {
+    const error = toFhevmError(e, "init");
+    if (error instanceof FhevmAbortError) {
+      log.debug("instance.aborted", { durationMs: Date.now() - start });
+    } else {
+      log.error("instance.failed", {
+        durationMs: Date.now() - start,
+        code: error.code,
+        error,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Steps shared by the browser and Node.js instance creations: resolves the
+ * chain, serves the local mock chains, then creates a relayer instance with
+ * the cached public key. `config` is undefined for mock instances.
+ */
+export async function createFhevmInstanceWithSDK(
+  parameters: FhevmInstanceCreationParameters,
+  log: FhevmScopedLogger,
+  start: number
+): Promise<{ instance: FhevmInstance; config?: FhevmInstanceConfig }> {
+  const {
+    network,
+    mockChains,
+    mock,
+    signal,
+    onStatusChange,
+    logger,
+    publicKeyStore,
+    loadSDK,
+  } = parameters;
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) throw new FhevmAbortError();
+  };
+
+  const notify = (status: FhevmRelayerStatusType) => {
+    log.info("instance.status", {
+      durationMs: Date.now() - start,
+      data: { status },
+    });
+    if (onStatusChange) onStatusChange(status);
+  };
+
+  // Resolve chainId
+  const { isMock, rpcUrl, chainId } =
+    parameters.resolved ??
+    (await resolve(network, mockChains, parameters.rpcUrl));
+
+  if (isMock) {
+    const mockInstance = await tryCreateFhevmMockInstance({
+      rpcUrl,
+      chainId,
+      mock,
+      onCreating: () => notify("creating"),
+    });
+
+    if (mockInstance) {
+      throwIfAborted();
+      return { instance: mockInstance };
+    }
+  }
+
+  // Throws a FHEVM_UNSUPPORTED_CHAIN error instead of silently falling back
+  // to the Sepolia addresses
+  const chainConfig = getFhevmChainConfig(chainId);
+
+  throwIfAborted();
+
+  const relayerSDK = await loadSDK(notify, throwIfAborted);
+
+  const aclAddress = chainConfig.aclContractAddress;
+  if (!checkIsAddress(aclAddress)) {
+    throw new FhevmConfigError(
+      "FHEVM_INVALID_CHAIN_CONFIG",
+      `Invalid address: ${aclAddress}`
+    );
+  }
+
+  const pub = await publicKeyStorageGet(aclAddress, {
+    relayerUrl: chainConfig.relayerUrl,
+    logger,
+    store: publicKeyStore,
+  });
+  throwIfAborted();
+
+  const config: FhevmInstanceConfig = {
+    ...chainConfig,
+    network,
+    publicKey: pub.publicKey,
+    publicParams: pub.publicParams,
+  };
+
+  // notify that state === "creating"
+  notify("creating");
+
+  const instance = await relayerSDK.createInstance(config);
+
+  // Save the key even if aborted. The instance works without the cache, a
+  // failing write (quota, read-only filesystem) is only reported.
+  try {
+    await publicKeyStorageSet(
+      aclAddress,
+      instance.getPublicKey(),
+      instancePublicParams(instance, config),
+      { store: publicKeyStore }
+    );
+  } catch (e) {
+    log.warn("cache.write-failed", { error: e, data: { acl: aclAddress } });
+  }
+
+  throwIfAborted();
+
+  return { instance, config };
+}
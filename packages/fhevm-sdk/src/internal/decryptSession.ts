@@ -0,0 +1,54 @@
+type FhevmDecryptedValues = Record<string, string | bigint | boolean>;
+
+// Handles are immutable: decrypted ones are never requested again, duplicates
+// are requested once and failed ones are skipped when `failures` is given
+export function pendingDecryptRequests<T extends { handle: string }>(
+  requests: readonly T[] | undefined,
+  results: FhevmDecryptedValues,
+  failures?: Record<string, unknown>
+): T[] {
+  const pending = new Map<string, T>();
+  for (const r of requests ?? []) {
+    if (r.handle in results || (failures && r.handle in failures)) continue;
+    if (!pending.has(r.handle)) pending.set(r.handle, r);
+  }
+  return Array.from(pending.values());
+}
+
+// Values decrypted for one chain, signer and delegator. Resetting starts a new
+// session, values of a previous session are dropped when they resolve late.
+export class FhevmDecryptSession {
+  private _id = 0;
+  private _results: FhevmDecryptedValues = {};
+
+  get id(): number {
+    return this._id;
+  }
+
+  get results(): FhevmDecryptedValues {
+    return this._results;
+  }
+
+  reset(): void {
+    this._id++;
+    this._results = {};
+  }
+
+  isStale(id: number): boolean {
+    return id !== this._id;
+  }
+
+  pending<T extends { handle: string }>(
+    requests: readonly T[] | undefined,
+    failures?: Record<string, unknown>
+  ): T[] {
+    return pendingDecryptRequests(requests, this._results, failures);
+  }
+
+  // Returns false, keeping the results untouched, when `id` is a previous session
+  merge(id: number, values: FhevmDecryptedValues): boolean {
+    if (this.isStale(id)) return false;
+    this._results = { ...this._results, ...values };
+    return true;
+  }
+}
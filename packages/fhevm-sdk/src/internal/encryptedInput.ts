@@ -0,0 +1,190 @@
+import { ethers } from "ethers";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import { FhevmEncryptError } from "./errors.js";
+
+export type FhevmEncryptedUintType =
+  | "euint8"
+  | "euint16"
+  | "euint32"
+  | "euint64"
+  | "euint128"
+  | "euint256";
+
+export type FhevmEncryptedType = "ebool" | FhevmEncryptedUintType | "eaddress";
+
+// Clear values accepted for each encrypted type
+export type FhevmEncryptedValue<T extends FhevmEncryptedType> =
+  T extends "ebool"
+    ? boolean | number | bigint
+    : T extends "eaddress"
+      ? string
+      : number | bigint;
+
+const UINT_BITS: Record<FhevmEncryptedUintType, number> = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+};
+
+const ADD_METHODS = {
+  ebool: "addBool",
+  euint8: "add8",
+  euint16: "add16",
+  euint32: "add32",
+  euint64: "add64",
+  euint128: "add128",
+  euint256: "add256",
+  eaddress: "addAddress",
+} as const satisfies Record<FhevmEncryptedType, keyof RelayerEncryptedInput>;
+
+export function isFhevmEncryptedType(type: string): type is FhevmEncryptedType {
+  return Object.prototype.hasOwnProperty.call(ADD_METHODS, type);
+}
+
+/**
+ * Encrypted type of a Solidity `internalType`, e.g. "externalEuint32" or
+ * "euint32" → "euint32". `undefined` for unsupported types.
+ */
+export function fhevmEncryptedTypeOf(
+  internalType: string
+): FhevmEncryptedType | undefined {
+  const type = internalType.replace(/^externalE/, "e");
+  return isFhevmEncryptedType(type) ? type : undefined;
+}
+
+function _describe(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+/**
+ * Checks that `value` can be encrypted as `type` and returns it in the form
+ * expected by the relayer SDK. Throws `FhevmEncryptError`
+ * ("INVALID_ENCRYPTED_VALUE") with a message naming `parameter`.
+ */
+export function validateEncryptedValue<T extends FhevmEncryptedType>(
+  type: T,
+  value: FhevmEncryptedValue<T>,
+  parameter?: string
+): FhevmEncryptedValue<T> {
+  const target = parameter ? `${parameter} (${type})` : type;
+  const fail = (reason: string): never => {
+    throw new FhevmEncryptError(
+      "INVALID_ENCRYPTED_VALUE",
+      `Invalid value ${_describe(value)} for ${target}: ${reason}`,
+      { parameter }
+    );
+  };
+
+  if (type === "ebool") {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    if (value === 0 || value === 1 || value === 0n || value === 1n) {
+      return value;
+    }
+    return fail("expected a boolean, 0 or 1");
+  }
+
+  if (type === "eaddress") {
+    if (typeof value !== "string" || !ethers.isAddress(value)) {
+      return fail("expected a 0x-prefixed 20-byte address");
+    }
+    return ethers.getAddress(value) as FhevmEncryptedValue<T>;
+  }
+
+  const bits = UINT_BITS[type as FhevmEncryptedUintType];
+  if (bits === undefined) {
+    throw new FhevmEncryptError(
+      "UNSUPPORTED_ENCRYPTED_TYPE",
+      `Unsupported encrypted type ${type}`,
+      { parameter }
+    );
+  }
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) {
+      return fail("expected an integer");
+    }
+    if (!Number.isSafeInteger(value)) {
+      return fail("unsafe integer, pass a bigint");
+    }
+  } else if (typeof value !== "bigint") {
+    return fail("expected a number or a bigint");
+  }
+  const max = (1n << BigInt(bits)) - 1n;
+  if (BigInt(value) < 0n || BigInt(value) > max) {
+    return fail(`out of range, expected 0 to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Typed wrapper of the relayer SDK encrypted input. Values are validated
+ * against their type when added, before anything reaches the relayer SDK.
+ */
+export class FhevmEncryptedInputBuilder {
+  #input: RelayerEncryptedInput;
+
+  constructor(input: RelayerEncryptedInput) {
+    this.#input = input;
+  }
+
+  // `parameter` names the value in validation errors
+  add<T extends FhevmEncryptedType>(
+    type: T,
+    value: FhevmEncryptedValue<T>,
+    parameter?: string
+  ): this {
+    if (!isFhevmEncryptedType(type)) {
+      throw new FhevmEncryptError(
+        "UNSUPPORTED_ENCRYPTED_TYPE",
+        `Unsupported encrypted type ${String(type)}`,
+        { parameter }
+      );
+    }
+    const valid = validateEncryptedValue(type, value, parameter);
+    const add = this.#input[ADD_METHODS[type]] as (
+      value: unknown
+    ) => RelayerEncryptedInput;
+    add.call(this.#input, valid);
+    return this;
+  }
+
+  ebool(value: boolean | number | bigint): this {
+    return this.add("ebool", value);
+  }
+
+  euint8(value: number | bigint): this {
+    return this.add("euint8", value);
+  }
+
+  euint16(value: number | bigint): this {
+    return this.add("euint16", value);
+  }
+
+  euint32(value: number | bigint): this {
+    return this.add("euint32", value);
+  }
+
+  euint64(value: number | bigint): this {
+    return this.add("euint64", value);
+  }
+
+  euint128(value: number | bigint): this {
+    return this.add("euint128", value);
+  }
+
+  euint256(value: number | bigint): this {
+    return this.add("euint256", value);
+  }
+
+  eaddress(value: string): this {
+    return this.add("eaddress", value);
+  }
+
+  encrypt(): ReturnType<RelayerEncryptedInput["encrypt"]> {
+    return this.#input.encrypt();
+  }
+}
@@ -0,0 +1,349 @@
+import { isError } from "ethers";
+
+export type FhevmErrorKind =
+  | "loader"
+  | "init"
+  | "network"
+  | "relayer"
+  | "acl-denied"
+  | "signature-rejected"
+  | "decrypt"
+  | "encrypt"
+  | "config"
+  | "aborted";
+
+export type FhevmLoaderErrorCode =
+  | "RELAYER_SDK_UNAVAILABLE"
+  | "RELAYER_SDK_INVALID"
+  | "RELAYER_SDK_LOAD_TIMEOUT"
+  | "RELAYER_SDK_LOAD_FAILED";
+export type FhevmInitErrorCode = "SDK_INIT_FAILED" | "INSTANCE_CREATION_FAILED";
+export type FhevmNetworkErrorCode =
+  | "NETWORK_ERROR"
+  | "WEB3_CLIENTVERSION_ERROR"
+  | "FHEVM_RELAYER_METADATA_ERROR";
+export type FhevmRelayerErrorCode = "RELAYER_ERROR";
+export type FhevmAclDeniedErrorCode = "ACL_DENIED";
+export type FhevmSignatureRejectedErrorCode = "SIGNATURE_REJECTED";
+export type FhevmDecryptErrorCode =
+  | "DECRYPT_FAILED"
+  | "SIGNATURE_FAILED"
+  | "DELEGATED_DECRYPT_UNSUPPORTED";
+export type FhevmEncryptErrorCode =
+  | "ENCRYPT_FAILED"
+  | "INVALID_ENCRYPTED_VALUE"
+  | "UNSUPPORTED_ENCRYPTED_TYPE";
+export type FhevmConfigErrorCode =
+  | "FHEVM_UNSUPPORTED_CHAIN"
+  | "FHEVM_INVALID_CHAIN_CONFIG"
+  | "FHEVM_CHAIN_ALREADY_REGISTERED"
+  | "FHEVM_INVALID_SIGNATURE_DURATION";
+export type FhevmAbortErrorCode = "ABORTED";
+
+export type FhevmErrorCode =
+  | FhevmLoaderErrorCode
+  | FhevmInitErrorCode
+  | FhevmNetworkErrorCode
+  | FhevmRelayerErrorCode
+  | FhevmAclDeniedErrorCode
+  | FhevmSignatureRejectedErrorCode
+  | FhevmDecryptErrorCode
+  | FhevmEncryptErrorCode
+  | FhevmConfigErrorCode
+  | FhevmAbortErrorCode;
+
+/**
+ * Base class of every error thrown or reported by the SDK. Use `kind` to
+ * discriminate between failure families and `code` for the precise cause.
+ */
+export abstract class FhevmError extends Error {
+  abstract readonly kind: FhevmErrorKind;
+  readonly code: FhevmErrorCode;
+
+  constructor(code: FhevmErrorCode, message?: string, options?: ErrorOptions) {
+    super(message ?? code, options);
+    this.code = code;
+  }
+}
+
+export class FhevmLoaderError extends FhevmError {
+  readonly kind = "loader" as const;
+  declare readonly code: FhevmLoaderErrorCode;
+  constructor(
+    code: FhevmLoaderErrorCode,
+    message?: string,
+    options?: ErrorOptions
+  ) {
+    super(code, message, options);
+    this.name = "FhevmLoaderError";
+  }
+}
+
+export class FhevmInitError extends FhevmError {
+  readonly kind = "init" as const;
+  declare readonly code: FhevmInitErrorCode;
+  constructor(
+    code: FhevmInitErrorCode,
+    message?: string,
+    options?: ErrorOptions
+  ) {
+    super(code, message, options);
+    this.name = "FhevmInitError";
+  }
+}
+
+/** @deprecated Renamed to `FhevmInitError` */
+export const FhevmReactError = FhevmInitError;
+/** @deprecated Renamed to `FhevmInitError` */
+export type FhevmReactError = FhevmInitError;
+
+export class FhevmNetworkError extends FhevmError {
+  readonly kind = "network" as const;
+  declare readonly code: FhevmNetworkErrorCode;
+  constructor(
+    code: FhevmNetworkErrorCode,
+    message?: string,
+    options?: ErrorOptions
+  ) {
+    super(code, message, options);
+    this.name = "FhevmNetworkError";
+  }
+}
+
+export class FhevmRelayerError extends FhevmError {
+  readonly kind = "relayer" as const;
+  declare readonly code: FhevmRelayerErrorCode;
+  // Code reported by the relayer SDK, e.g. "RELAYER_FETCH_ERROR"
+  readonly relayerCode?: string;
+  // Relayer operation, e.g. "USER_DECRYPT" or "INPUT_PROOF"
+  readonly operation?: string;
+  readonly status?: number;
+  constructor(
+    message?: string,
+    options?: ErrorOptions & {
+      relayerCode?: string;
+      operation?: string;
+      status?: number;
+    }
+  ) {
+    super("RELAYER_ERROR", message, options);
+    this.name = "FhevmRelayerError";
+    this.relayerCode = options?.relayerCode;
+    this.operation = options?.operation;
+    this.status = options?.status;
+  }
+}
+
+export class FhevmAclDeniedError extends FhevmError {
+  readonly kind = "acl-denied" as const;
+  declare readonly code: FhevmAclDeniedErrorCode;
+  readonly handle?: string;
+  constructor(message?: string, options?: ErrorOptions & { handle?: string }) {
+    super("ACL_DENIED", message, options);
+    this.name = "FhevmAclDeniedError";
+    this.handle = options?.handle;
+  }
+}
+
+export class FhevmSignatureRejectedError extends FhevmError {
+  readonly kind = "signature-rejected" as const;
+  declare readonly code: FhevmSignatureRejectedErrorCode;
+  constructor(
+    message = "The user rejected the signature request",
+    options?: ErrorOptions
+  ) {
+    super("SIGNATURE_REJECTED", message, options);
+    this.name = "FhevmSignatureRejectedError";
+  }
+}
+
+export class FhevmDecryptError extends FhevmError {
+  readonly kind = "decrypt" as const;
+  declare readonly code: FhevmDecryptErrorCode;
+  constructor(
+    code: FhevmDecryptErrorCode,
+    message?: string,
+    options?: ErrorOptions
+  ) {
+    super(code, message, options);
+    this.name = "FhevmDecryptError";
+  }
+}
+
+export class FhevmEncryptError extends FhevmError {
+  readonly kind = "encrypt" as const;
+  declare readonly code: FhevmEncryptErrorCode;
+  // Name of the offending function parameter, for validation errors
+  readonly parameter?: string;
+  constructor(
+    code: FhevmEncryptErrorCode,
+    message?: string,
+    options?: ErrorOptions & { parameter?: string }
+  ) {
+    super(code, message, options);
+    this.name = "FhevmEncryptError";
+    this.parameter = options?.parameter;
+  }
+}
+
+export class FhevmConfigError extends FhevmError {
+  readonly kind = "config" as const;
+  declare readonly code: FhevmConfigErrorCode;
+  constructor(
+    code: FhevmConfigErrorCode,
+    message?: string,
+    options?: ErrorOptions
+  ) {
+    super(code, message, options);
+    this.name = "FhevmConfigError";
+  }
+}
+
+export class FhevmAbortError extends FhevmError {
+  readonly kind = "aborted" as const;
+  declare readonly code: FhevmAbortErrorCode;
+  constructor(message = "FHEVM operation was cancelled") {
+    super("ABORTED", message);
+    this.name = "FhevmAbortError";
+  }
+}
+
+export type FhevmAnyError =
+  | FhevmLoaderError
+  | FhevmInitError
+  | FhevmNetworkError
+  | FhevmRelayerError
+  | FhevmAclDeniedError
+  | FhevmSignatureRejectedError
+  | FhevmDecryptError
+  | FhevmEncryptError
+  | FhevmConfigError
+  | FhevmAbortError;
+
+export function isFhevmError(e: unknown): e is FhevmAnyError {
+  return e instanceof FhevmError;
+}
+
+function messageOf(e: unknown): string {
+  if (e instanceof Error) {
+    return e.message;
+  }
+  return typeof e === "string" ? e : "Unknown error";
+}
+
+function isUserRejection(e: unknown): boolean {
+  if (isError(e, "ACTION_REJECTED")) {
+    return true;
+  }
+  // EIP-1193 "User Rejected Request", possibly wrapped by ethers or viem
+  let cur: unknown = e;
+  for (let depth = 0; cur && typeof cur === "object" && depth < 4; ++depth) {
+    const o = cur as {
+      code?: unknown;
+      error?: unknown;
+      info?: { error?: unknown };
+      cause?: unknown;
+    };
+    if (o.code === 4001) {
+      return true;
+    }
+    cur = o.error ?? o.info?.error ?? o.cause;
+  }
+  return false;
+}
+
+// Unreachable RPC node or relayer, possibly wrapped: the relayer SDK throws
+// `Error("Impossible to fetch public key: wrong relayer url.")` with the
+// `TypeError("fetch failed")` as its cause
+function isNetworkFailure(e: unknown): boolean {
+  let cur: unknown = e;
+  for (let depth = 0; cur && typeof cur === "object" && depth < 4; ++depth) {
+    if (
+      isError(cur, "NETWORK_ERROR") ||
+      isError(cur, "SERVER_ERROR") ||
+      isError(cur, "TIMEOUT") ||
+      (cur instanceof TypeError && /fetch/i.test(cur.message))
+    ) {
+      return true;
+    }
+    cur = (cur as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+function relayerCauseOf(
+  e: unknown
+): { code: string; operation?: string; status?: number } | undefined {
+  const cause = e instanceof Error ? e.cause : undefined;
+  if (!cause || typeof cause !== "object") {
+    return undefined;
+  }
+  const c = cause as { code?: unknown; operation?: unknown; status?: unknown };
+  if (typeof c.code !== "string" || !c.code.startsWith("RELAYER_")) {
+    return undefined;
+  }
+  return {
+    code: c.code,
+    operation: typeof c.operation === "string" ? c.operation : undefined,
+    status: typeof c.status === "number" ? c.status : undefined,
+  };
+}
+
+const ACL_DENIED_PATTERNS = [
+  /is not authorized to user decrypt handle (0x[0-9a-fA-F]+)/,
+  /Handle (0x[0-9a-fA-F]+) is not allowed for public decryption/,
+];
+
+/**
+ * Maps any thrown value to the SDK error hierarchy. Known failures (user
+ * rejections, ACL denials, relayer and network errors) get their dedicated
+ * class, anything else is wrapped according to `context`.
+ */
+export function toFhevmError(
+  e: unknown,
+  context: "init" | "decrypt" | "encrypt" | "signature"
+): FhevmAnyError {
+  if (isFhevmError(e)) {
+    return e;
+  }
+
+  const message = messageOf(e);
+
+  if (isUserRejection(e)) {
+    return new FhevmSignatureRejectedError(undefined, { cause: e });
+  }
+
+  for (const pattern of ACL_DENIED_PATTERNS) {
+    const m = message.match(pattern);
+    if (m) {
+      return new FhevmAclDeniedError(message, { cause: e, handle: m[1] });
+    }
+  }
+
+  const relayerCause = relayerCauseOf(e);
+  if (relayerCause) {
+    return new FhevmRelayerError(message, {
+      cause: e,
+      relayerCode: relayerCause.code,
+      operation: relayerCause.operation,
+      status: relayerCause.status,
+    });
+  }
+
+  if (isNetworkFailure(e)) {
+    return new FhevmNetworkError("NETWORK_ERROR", message, { cause: e });
+  }
+
+  switch (context) {
+    case "init":
+      return new FhevmInitError("INSTANCE_CREATION_FAILED", message, {
+        cause: e,
+      });
+    case "encrypt":
+      return new FhevmEncryptError("ENCRYPT_FAILED", message, { cause: e });
+    case "signature":
+      return new FhevmDecryptError("SIGNATURE_FAILED", message, { cause: e });
+    case "decrypt":
+      return new FhevmDecryptError("DECRYPT_FAILED", message, { cause: e });
+  }
+}
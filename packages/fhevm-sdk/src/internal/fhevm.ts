@@ -1,317 +1,162 @@
-import { isAddress, Eip1193Provider, JsonRpcProvider } from "ethers";
+import { Eip1193Provider } from "ethers";
 import type {
   FhevmInitSDKOptions,
   FhevmInitSDKType,
   FhevmLoadSDKType,
+  FhevmMockOptions,
+  FhevmRelayerStatusType,
   FhevmWindowType,
-} from "./fhevmTypes";
-import { isFhevmWindowType, RelayerSDKLoader } from "./RelayerSDKLoader";
-import { publicKeyStorageGet, publicKeyStorageSet } from "./PublicKeyStorage";
-import { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes";
-
-export class FhevmReactError extends Error {
-  code: string;
-  constructor(code: string, message?: string, options?: ErrorOptions) {
-    super(message, options);
-    this.code = code;
-    this.name = "FhevmReactError";
-  }
-}
-
-function throwFhevmError(
-  code: string,
-  message?: string,
-  cause?: unknown
-): never {
-  throw new FhevmReactError(code, message, cause ? { cause } : undefined);
-}
+} from "./fhevmTypes.js";
+import { FhevmAbortError, FhevmInitError } from "./errors.js";
+import { FhevmLogger, FhevmScopedLogger, scopeFhevmLogger } from "./logger.js";
+import {
+  isFhevmWindowType,
+  RelayerSDKLoader,
+  RelayerSDKLoaderOptions,
+} from "./RelayerSDKLoader.js";
+import {
+  createFhevmInstanceWithSDK,
+  logFhevmInstanceCreation,
+} from "./createInstance.js";
+import type { ResolveResult } from "./resolve.js";
+import {
+  createFhevmWorkerInstance,
+  FhevmWorkerOptions,
+} from "./worker/FhevmWorker.js";
+import { FhevmInstance } from "../fhevmTypes.js";
+import type { PublicKeyStore } from "../storage/PublicKeyStore.js";
 
 const isFhevmInitialized = (): boolean => {
-  if (!isFhevmWindowType(window, console.log)) {
+  if (!isFhevmWindowType(window)) {
     return false;
   }
   return window.relayerSDK.__initialized__ === true;
 };
 
-const fhevmLoadSDK: FhevmLoadSDKType = () => {
-  const loader = new RelayerSDKLoader({ trace: console.log });
+const fhevmLoadSDK: FhevmLoadSDKType = (options) => {
+  const loader = new RelayerSDKLoader({ ...options });
   return loader.load();
 };
 
 const fhevmInitSDK: FhevmInitSDKType = async (
   options?: FhevmInitSDKOptions
 ) => {
-  if (!isFhevmWindowType(window, console.log)) {
-    throw new Error("window.relayerSDK is not available");
+  if (!isFhevmWindowType(window)) {
+    throw new FhevmInitError(
+      "SDK_INIT_FAILED",
+      "window.relayerSDK is not available"
+    );
   }
   const result = await window.relayerSDK.initSDK(options);
   window.relayerSDK.__initialized__ = result;
   if (!result) {
-    throw new Error("window.relayerSDK.initSDK failed.");
+    throw new FhevmInitError(
+      "SDK_INIT_FAILED",
+      "window.relayerSDK.initSDK failed."
+    );
   }
   return true;
 };
 
-function checkIsAddress(a: unknown): a is `0x${string}` {
-  if (typeof a !== "string") {
-    return false;
-  }
-  if (!isAddress(a)) {
-    return false;
-  }
-  return true;
-}
-
-export class FhevmAbortError extends Error {
-  constructor(message = "FHEVM operation was cancelled") {
-    super(message);
-    this.name = "FhevmAbortError";
-  }
-}
-
-type FhevmRelayerStatusType =
-  | "sdk-loading"
-  | "sdk-loaded"
-  | "sdk-initializing"
-  | "sdk-initialized"
-  | "creating";
-
-async function getChainId(
-  providerOrUrl: Eip1193Provider | string
-): Promise<number> {
-  if (typeof providerOrUrl === "string") {
-    const provider = new JsonRpcProvider(providerOrUrl);
-    return Number((await provider.getNetwork()).chainId);
-  }
-  const chainId = await providerOrUrl.request({ method: "eth_chainId" });
-  return Number.parseInt(chainId as string, 16);
-}
-
-async function getWeb3Client(rpcUrl: string) {
-  const rpc = new JsonRpcProvider(rpcUrl);
-  try {
-    const version = await rpc.send("web3_clientVersion", []);
-    return version;
-  } catch (e) {
-    throwFhevmError(
-      "WEB3_CLIENTVERSION_ERROR",
-      `The URL ${rpcUrl} is not a Web3 node or is not reachable. Please check the endpoint.`,
-      e
-    );
-  } finally {
-    rpc.destroy();
-  }
-}
-
-async function tryFetchFHEVMHardhatNodeRelayerMetadata(rpcUrl: string): Promise<
-  | {
-      ACLAddress: `0x${string}`;
-      InputVerifierAddress: `0x${string}`;
-      KMSVerifierAddress: `0x${string}`;
-    }
-  | undefined
-> {
-  const version = await getWeb3Client(rpcUrl);
-  if (
-    typeof version !== "string" ||
-    !version.toLowerCase().includes("hardhat")
-  ) {
-    // Not a Hardhat Node
-    return undefined;
-  }
-  try {
-    const metadata = await getFHEVMRelayerMetadata(rpcUrl);
-    if (!metadata || typeof metadata !== "object") {
-      return undefined;
-    }
-    if (
-      !(
-        "ACLAddress" in metadata &&
-        typeof metadata.ACLAddress === "string" &&
-        metadata.ACLAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    if (
-      !(
-        "InputVerifierAddress" in metadata &&
-        typeof metadata.InputVerifierAddress === "string" &&
-        metadata.InputVerifierAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    if (
-      !(
-        "KMSVerifierAddress" in metadata &&
-        typeof metadata.KMSVerifierAddress === "string" &&
-        metadata.KMSVerifierAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    return metadata;
-  } catch {
-    // Not a FHEVM Hardhat Node
-    return undefined;
-  }
-}
-
-async function getFHEVMRelayerMetadata(rpcUrl: string) {
-  const rpc = new JsonRpcProvider(rpcUrl);
-  try {
-    const version = await rpc.send("fhevm_relayer_metadata", []);
-    return version;
-  } catch (e) {
-    throwFhevmError(
-      "FHEVM_RELAYER_METADATA_ERROR",
-      `The URL ${rpcUrl} is not a FHEVM Hardhat node or is not reachable. Please check the endpoint.`,
-      e
-    );
-  } finally {
-    rpc.destroy();
-  }
-}
-
-type MockResolveResult = { isMock: true; chainId: number; rpcUrl: string };
-type GenericResolveResult = { isMock: false; chainId: number; rpcUrl?: string };
-type ResolveResult = MockResolveResult | GenericResolveResult;
-
-async function resolve(
-  providerOrUrl: Eip1193Provider | string,
-  mockChains?: Record<number, string>
-): Promise<ResolveResult> {
-  // Resolve chainId
-  const chainId = await getChainId(providerOrUrl);
-
-  // Resolve rpc url
-  let rpcUrl = typeof providerOrUrl === "string" ? providerOrUrl : undefined;
-
-  const _mockChains: Record<number, string> = {
-    31337: "http://localhost:8545",
-    ...(mockChains ?? {}),
-  };
-
-  // Help Typescript solver here:
-  if (Object.hasOwn(_mockChains, chainId)) {
-    if (!rpcUrl) {
-      rpcUrl = _mockChains[chainId];
-    }
-
-    return { isMock: true, chainId, rpcUrl };
-  }
-
-  return { isMock: false, chainId, rpcUrl };
-}
-
-export const createFhevmInstance = async (parameters: {
+export type CreateFhevmInstanceParameters = {
   provider: Eip1193Provider | string;
   mockChains?: Record<number, string>;
+  // Metadata overrides and local node detection of the mock chains
+  mock?: FhevmMockOptions;
+  // Sources, timeouts and retry policy used to load the relayer SDK script
+  loader?: Omit<RelayerSDKLoaderOptions, "trace" | "logger">;
   signal: AbortSignal;
   onStatusChange?: (status: FhevmRelayerStatusType) => void;
-}): Promise<FhevmInstance> => {
-  const throwIfAborted = () => {
-    if (signal.aborted) throw new FhevmAbortError();
-  };
+  logger?: FhevmLogger;
+  // Public key cache backend, defaults to IndexedDB
+  publicKeyStore?: PublicKeyStore;
+  // Runs encryption, keypair generation and decryption in a Web Worker.
+  // Ignored for mock chains.
+  worker?: boolean | FhevmWorkerOptions;
+};
 
-  const notify = (status: FhevmRelayerStatusType) => {
-    if (onStatusChange) onStatusChange(status);
-  };
+/**
+ * `resolved` is the chain behind `parameters.provider` when the caller already
+ * resolved it, e.g. the instance pool.
+ */
+export const createFhevmInstance = async (
+  parameters: CreateFhevmInstanceParameters,
+  resolved?: ResolveResult
+): Promise<FhevmInstance> => {
+  const log = scopeFhevmLogger(parameters.logger, "createFhevmInstance");
+  return logFhevmInstanceCreation(log, (start) =>
+    _createFhevmInstance(parameters, log, start, resolved)
+  );
+};
+
+const _createFhevmInstance = async (
+  parameters: CreateFhevmInstanceParameters,
+  log: FhevmScopedLogger,
+  start: number,
+  resolved: ResolveResult | undefined
+): Promise<FhevmInstance> => {
+  const trace = (message?: unknown) =>
+    log.debug("trace", { message: String(message) });
 
   const {
     signal,
-    onStatusChange,
     provider: providerOrUrl,
-    mockChains,
+    loader,
+    logger,
+    worker,
   } = parameters;
 
-  // Resolve chainId
-  const { isMock, rpcUrl, chainId } = await resolve(providerOrUrl, mockChains);
-
-  if (isMock) {
-    // Throws an error if cannot connect or url does not refer to a Web3 client
-    const fhevmRelayerMetadata =
-      await tryFetchFHEVMHardhatNodeRelayerMetadata(rpcUrl);
+  const { instance, config } = await createFhevmInstanceWithSDK(
+    {
+      ...parameters,
+      network: providerOrUrl,
+      resolved,
+      loadSDK: async (notify, throwIfAborted) => {
+        if (!isFhevmWindowType(window, trace)) {
+          notify("sdk-loading");
 
-    if (fhevmRelayerMetadata) {
-      // fhevmRelayerMetadata is defined, which means rpcUrl refers to a FHEVM Hardhat Node
-      notify("creating");
+          // throws an error if failed
+          await fhevmLoadSDK({ ...loader, logger });
+          throwIfAborted();
 
-      //////////////////////////////////////////////////////////////////////////
-      // 
-      // WARNING!!
-      // ALWAY USE DYNAMIC IMPORT TO AVOID INCLUDING THE ENTIRE FHEVM MOCK LIB 
-      // IN THE FINAL PRODUCTION BUNDLE!!
-      // 
-      //////////////////////////////////////////////////////////////////////////
-      const fhevmMock = await import("./mock/fhevmMock");
-      const mockInstance = await fhevmMock.fhevmMockCreateInstance({
-        rpcUrl,
-        chainId,
-        metadata: fhevmRelayerMetadata,
-      });
+          notify("sdk-loaded");
+        }
 
-      throwIfAborted();
+        // notify that state === "sdk-loaded"
 
-      return mockInstance;
-    }
-  }
+        if (!isFhevmInitialized()) {
+          notify("sdk-initializing");
 
-  throwIfAborted();
+          // throws an error if failed
+          await fhevmInitSDK();
+          throwIfAborted();
 
-  if (!isFhevmWindowType(window, console.log)) {
-    notify("sdk-loading");
+          notify("sdk-initialized");
+        }
 
-    // throws an error if failed
-    await fhevmLoadSDK();
-    throwIfAborted();
-
-    notify("sdk-loaded");
-  }
-
-  // notify that state === "sdk-loaded"
-
-  if (!isFhevmInitialized()) {
-    notify("sdk-initializing");
-
-    // throws an error if failed
-    await fhevmInitSDK();
-    throwIfAborted();
-
-    notify("sdk-initialized");
-  }
-
-  const relayerSDK = (window as unknown as FhevmWindowType).relayerSDK;
-
-  const aclAddress = relayerSDK.SepoliaConfig.aclContractAddress;
-  if (!checkIsAddress(aclAddress)) {
-    throw new Error(`Invalid address: ${aclAddress}`);
-  }
-
-  const pub = await publicKeyStorageGet(aclAddress);
-  throwIfAborted();
-
-  const config: FhevmInstanceConfig = {
-    ...relayerSDK.SepoliaConfig,
-    network: providerOrUrl,
-    publicKey: pub.publicKey,
-    publicParams: pub.publicParams,
-  };
-
-  // notify that state === "creating"
-  notify("creating");
-
-  const instance = await relayerSDK.createInstance(config);
-
-  // Save the key even if aborted
-  await publicKeyStorageSet(
-    aclAddress,
-    instance.getPublicKey(),
-    instance.getPublicParams(2048)
+        return (window as unknown as FhevmWindowType).relayerSDK;
+      },
+    },
+    log,
+    start
   );
 
-  throwIfAborted();
+  // Mock instances have no config and run on the main thread
+  if (worker && config) {
+    const workerInstance = await createFhevmWorkerInstance({
+      instance,
+      config,
+      provider: providerOrUrl,
+      options: worker === true ? undefined : worker,
+      loader,
+      logger,
+    });
+    if (signal.aborted) {
+      workerInstance.terminate();
+      throw new FhevmAbortError();
+    }
+    return workerInstance;
+  }
 
   return instance;
 };
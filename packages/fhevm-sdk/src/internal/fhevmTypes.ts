@@ -1,4 +1,5 @@
-import type { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes";
+import type { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes.js";
+import type { RelayerSDKLoaderOptions } from "./RelayerSDKLoader.js";
 
 export type FhevmInitSDKOptions = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -12,7 +13,9 @@ export type FhevmCreateInstanceType = () => Promise<FhevmInstance>;
 export type FhevmInitSDKType = (
   options?: FhevmInitSDKOptions
 ) => Promise<boolean>;
-export type FhevmLoadSDKType = () => Promise<void>;
+export type FhevmLoadSDKType = (
+  options?: Omit<RelayerSDKLoaderOptions, "trace">
+) => Promise<void>;
 export type IsFhevmSupportedType = (chainId: number) => boolean;
 
 export type FhevmRelayerSDKType = {
@@ -21,6 +24,44 @@ export type FhevmRelayerSDKType = {
   SepoliaConfig: FhevmInstanceConfig;
   __initialized__?: boolean;
 };
+export type FhevmRelayerStatusType =
+  | "sdk-loading"
+  | "sdk-loaded"
+  | "sdk-initializing"
+  | "sdk-initialized"
+  | "creating";
+
 export type FhevmWindowType = {
   relayerSDK: FhevmRelayerSDKType;
 };
+
+/**
+ * Addresses and ids used to build a mock instance against a local node.
+ * Read from the node `fhevm_relayer_metadata` RPC method when available.
+ */
+export type FhevmMockMetadata = {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  gatewayChainId: number;
+  verifyingContractAddressDecryption: `0x${string}`;
+  verifyingContractAddressInputVerification: `0x${string}`;
+};
+
+/**
+ * Decides whether the node behind `rpcUrl` is a local FHEVM-capable node
+ * that should be served by a mock instance.
+ */
+export type FhevmLocalNodeDetector = (node: {
+  rpcUrl: string;
+  chainId: number;
+  // `web3_clientVersion` of the node, e.g. "HardhatNetwork/2.22.0"
+  clientVersion: string;
+}) => boolean | Promise<boolean>;
+
+export type FhevmMockOptions = {
+  // Takes precedence over the values returned by the node
+  metadata?: Partial<FhevmMockMetadata>;
+  // Defaults to accepting Hardhat and Anvil nodes
+  detectLocalNode?: FhevmLocalNodeDetector;
+};
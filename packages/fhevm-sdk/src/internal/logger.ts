@@ -0,0 +1,113 @@
+export type FhevmLogLevel = "debug" | "info" | "warn" | "error";
+
+export type FhevmLogEntry = {
+  level: FhevmLogLevel;
+  // Component emitting the event, e.g. "RelayerSDKLoader" or "useFHEDecrypt"
+  scope: string;
+  // Stable, dot-separated event name, e.g. "instance.status"
+  event: string;
+  message?: string;
+  // Unix timestamp in milliseconds
+  timestamp: number;
+  durationMs?: number;
+  // Error code, when the event reports a failure
+  code?: string;
+  error?: unknown;
+  data?: Record<string, unknown>;
+};
+
+export interface FhevmLogger {
+  log(entry: FhevmLogEntry): void;
+}
+
+export type FhevmLogFields = Omit<
+  FhevmLogEntry,
+  "level" | "scope" | "event" | "timestamp"
+>;
+
+const LEVELS: Record<FhevmLogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+export const silentFhevmLogger: FhevmLogger = Object.freeze({
+  log() {},
+});
+
+export function createConsoleFhevmLogger(options?: {
+  level?: FhevmLogLevel;
+  console?: Pick<Console, "debug" | "info" | "warn" | "error">;
+}): FhevmLogger {
+  const minLevel = LEVELS[options?.level ?? "info"];
+  const out = options?.console ?? console;
+  return {
+    log(entry) {
+      if (LEVELS[entry.level] < minLevel) {
+        return;
+      }
+      const { level, scope, event, message, ...rest } = entry;
+      out[level](`[${scope}] ${event}${message ? `: ${message}` : ""}`, rest);
+    },
+  };
+}
+
+function isProduction(): boolean {
+  try {
+    return process.env.NODE_ENV === "production";
+  } catch {
+    // `process` is not defined
+    return false;
+  }
+}
+
+let __defaultLogger: FhevmLogger | undefined = undefined;
+
+/**
+ * Logger used when none is passed explicitly: silent in production builds,
+ * console output from the "warn" level otherwise. Pass a logger, or call
+ * `setDefaultFhevmLogger`, to see the lower levels.
+ */
+export function getDefaultFhevmLogger(): FhevmLogger {
+  if (!__defaultLogger) {
+    __defaultLogger = isProduction()
+      ? silentFhevmLogger
+      : createConsoleFhevmLogger({ level: "warn" });
+  }
+  return __defaultLogger;
+}
+
+export function setDefaultFhevmLogger(logger: FhevmLogger | undefined) {
+  __defaultLogger = logger;
+}
+
+export type FhevmScopedLogger = {
+  [L in FhevmLogLevel]: (event: string, fields?: FhevmLogFields) => void;
+};
+
+export function scopeFhevmLogger(
+  logger: FhevmLogger | undefined,
+  scope: string
+): FhevmScopedLogger {
+  const emit =
+    (level: FhevmLogLevel) => (event: string, fields?: FhevmLogFields) => {
+      try {
+        (logger ?? getDefaultFhevmLogger()).log({
+          ...fields,
+          level,
+          scope,
+          event,
+          timestamp: Date.now(),
+        });
+      } catch {
+        // A faulty logger must never break the SDK
+      }
+    };
+  return {
+    debug: emit("debug"),
+    info: emit("info"),
+    warn: emit("warn"),
+    error: emit("error"),
+  };
+}
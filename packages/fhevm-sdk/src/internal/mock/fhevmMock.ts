@@ -8,34 +8,29 @@
 
 import { JsonRpcProvider } from "ethers";
 import { MockFhevmInstance } from "@fhevm/mock-utils";
-import { FhevmInstance } from "../../fhevmTypes";
+import type { FhevmMockMetadata } from "../fhevmTypes.js";
+import { FhevmInstance } from "../../fhevmTypes.js";
 
 export const fhevmMockCreateInstance = async (parameters: {
   rpcUrl: string;
   chainId: number;
-  metadata: {
-    ACLAddress: `0x${string}`;
-    InputVerifierAddress: `0x${string}`;
-    KMSVerifierAddress: `0x${string}`;
-  };
+  metadata: FhevmMockMetadata;
 }): Promise<FhevmInstance> => {
+  const { metadata } = parameters;
   const provider = new JsonRpcProvider(parameters.rpcUrl);
   const instance = await MockFhevmInstance.create(
     provider,
     provider,
     {
-      //aclContractAddress: "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
-      aclContractAddress: parameters.metadata.ACLAddress,
+      aclContractAddress: metadata.ACLAddress,
       chainId: parameters.chainId,
-      gatewayChainId: 55815,
-      // inputVerifierContractAddress: "0x901F8942346f7AB3a01F6D7613119Bca447Bb030",
-      // kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
-      inputVerifierContractAddress: parameters.metadata.InputVerifierAddress,
-      kmsContractAddress: parameters.metadata.KMSVerifierAddress,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
       verifyingContractAddressDecryption:
-        "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+        metadata.verifyingContractAddressDecryption,
       verifyingContractAddressInputVerification:
-        "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+        metadata.verifyingContractAddressInputVerification,
     },
     {
       inputVerifierProperties: {},
@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import { FhevmDecryptError, toFhevmError } from "./errors.js";
+import { FhevmLogger, scopeFhevmLogger } from "./logger.js";
+import { FhevmInstance, PublicDecryptResults } from "../fhevmTypes.js";
+
+export type FhevmPublicDecryptResult = PublicDecryptResults & {
+  // Normalized handles, in the requested order. `clearValues` is keyed by
+  // these handles.
+  handles: `0x${string}`[];
+};
+
+function _normalizeHandle(handle: string | Uint8Array): `0x${string}` {
+  return ethers.hexlify(handle).toLowerCase() as `0x${string}`;
+}
+
+/**
+ * Decrypts handles that their contract made publicly decryptable, no user
+ * signature is involved. The relayer SDK checks the ACL and rejects answers
+ * that lack the KMS signers threshold, `decryptionProof` carries those
+ * signatures for on-chain verification (`FHE.checkSignatures`).
+ */
+export async function publicDecryptHandles(
+  instance: FhevmInstance,
+  handles: readonly (string | Uint8Array)[],
+  options?: { logger?: FhevmLogger }
+): Promise<FhevmPublicDecryptResult> {
+  const log = scopeFhevmLogger(options?.logger, "publicDecrypt");
+  const start = Date.now();
+  const normalized = handles.map(_normalizeHandle);
+
+  let results: PublicDecryptResults;
+  try {
+    results = await instance.publicDecrypt(normalized);
+  } catch (e) {
+    const err = toFhevmError(e, "decrypt");
+    log.error("decrypt.failed", {
+      durationMs: Date.now() - start,
+      code: err.code,
+      error: err,
+    });
+    throw err;
+  }
+
+  const clearValues = Object.fromEntries(
+    Object.entries(results.clearValues).map(([h, v]) => [h.toLowerCase(), v])
+  );
+  const missing = normalized.find((h) => !(h in clearValues));
+  if (missing) {
+    throw new FhevmDecryptError(
+      "DECRYPT_FAILED",
+      `Public decryption returned no value for handle ${missing}`
+    );
+  }
+
+  log.info("decrypt.done", {
+    durationMs: Date.now() - start,
+    data: { handles: normalized.length },
+  });
+  return { ...results, clearValues, handles: normalized };
+}
+
+/**
+ * Encodes a call submitting a public decryption back on-chain. Arguments are
+ * matched by type: `bytes` inputs named like "proof" get the decryption
+ * proof, other `bytes` inputs the ABI-encoded clear values, `bytes32[]` the
+ * handles, and scalar inputs the clear values in handle order. `args`
+ * overrides inputs by name.
+ */
+export function buildPublicDecryptCalldata(parameters: {
+  abi: ethers.InterfaceAbi;
+  functionName: string;
+  result: FhevmPublicDecryptResult;
+  args?: Record<string, unknown>;
+}): `0x${string}` {
+  const { abi, functionName, result, args } = parameters;
+  const iface = new ethers.Interface(abi);
+  const fn = iface.getFunction(functionName);
+  if (!fn) {
+    throw new TypeError(`Function ABI not found for ${functionName}`);
+  }
+
+  let nextClearValue = 0;
+  const values = fn.inputs.map((input) => {
+    if (args && input.name in args) {
+      return args[input.name];
+    }
+    if (input.type === "bytes") {
+      return /proof/i.test(input.name)
+        ? result.decryptionProof
+        : result.abiEncodedClearValues;
+    }
+    if (input.type === "bytes32[]") {
+      return result.handles;
+    }
+    if (/^(u?int\d*|bool|address)$/.test(input.type)) {
+      if (nextClearValue >= result.handles.length) {
+        throw new TypeError(
+          `No clear value left for input ${input.name} of ${functionName}`
+        );
+      }
+      return result.clearValues[result.handles[nextClearValue++]];
+    }
+    throw new TypeError(
+      `Cannot infer input ${input.name} (${input.type}) of ${functionName}, pass it in args`
+    );
+  });
+
+  return iface.encodeFunctionData(fn, values) as `0x${string}`;
+}
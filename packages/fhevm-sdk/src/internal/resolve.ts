@@ -0,0 +1,225 @@
+import { isAddress, Eip1193Provider, JsonRpcProvider } from "ethers";
+import { FhevmNetworkError } from "./errors.js";
+import type {
+  FhevmLocalNodeDetector,
+  FhevmMockMetadata,
+  FhevmMockOptions,
+} from "./fhevmTypes.js";
+import { FhevmInstance } from "../fhevmTypes.js";
+
+export function checkIsAddress(a: unknown): a is `0x${string}` {
+  if (typeof a !== "string") {
+    return false;
+  }
+  if (!isAddress(a)) {
+    return false;
+  }
+  return true;
+}
+
+export async function getChainId(
+  providerOrUrl: Eip1193Provider | string
+): Promise<number> {
+  if (typeof providerOrUrl === "string") {
+    const provider = new JsonRpcProvider(providerOrUrl);
+    try {
+      return Number((await provider.getNetwork()).chainId);
+    } finally {
+      provider.destroy();
+    }
+  }
+  const chainId = await providerOrUrl.request({ method: "eth_chainId" });
+  return Number.parseInt(chainId as string, 16);
+}
+
+async function getWeb3Client(rpcUrl: string) {
+  const rpc = new JsonRpcProvider(rpcUrl);
+  try {
+    const version = await rpc.send("web3_clientVersion", []);
+    return version;
+  } catch (e) {
+    throw new FhevmNetworkError(
+      "WEB3_CLIENTVERSION_ERROR",
+      `The URL ${rpcUrl} is not a Web3 node or is not reachable. Please check the endpoint.`,
+      { cause: e }
+    );
+  } finally {
+    rpc.destroy();
+  }
+}
+
+// Defaults of the FHEVM Hardhat plugin, used when the node metadata does not
+// provide them
+const DEFAULT_MOCK_METADATA: Pick<
+  FhevmMockMetadata,
+  | "gatewayChainId"
+  | "verifyingContractAddressDecryption"
+  | "verifyingContractAddressInputVerification"
+> = {
+  gatewayChainId: 55815,
+  verifyingContractAddressDecryption:
+    "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+  verifyingContractAddressInputVerification:
+    "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+};
+
+const defaultLocalNodeDetector: FhevmLocalNodeDetector = ({ clientVersion }) =>
+  /hardhat|anvil/i.test(clientVersion);
+
+// Keeps the known metadata fields having the expected type
+function pickFhevmMockMetadata(value: unknown): Partial<FhevmMockMetadata> {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+  const v = value as Record<string, unknown>;
+  const metadata: Partial<FhevmMockMetadata> = {};
+  for (const name of [
+    "ACLAddress",
+    "InputVerifierAddress",
+    "KMSVerifierAddress",
+    "verifyingContractAddressDecryption",
+    "verifyingContractAddressInputVerification",
+  ] as const) {
+    if (checkIsAddress(v[name])) {
+      metadata[name] = v[name];
+    }
+  }
+  if (Number.isInteger(v.gatewayChainId)) {
+    metadata.gatewayChainId = v.gatewayChainId as number;
+  }
+  return metadata;
+}
+
+async function tryFetchFhevmLocalNodeMetadata(
+  rpcUrl: string,
+  chainId: number,
+  options?: FhevmMockOptions
+): Promise<FhevmMockMetadata | undefined> {
+  const clientVersion = await getWeb3Client(rpcUrl);
+  const detect = options?.detectLocalNode ?? defaultLocalNodeDetector;
+  if (
+    typeof clientVersion !== "string" ||
+    !(await detect({ rpcUrl, chainId, clientVersion }))
+  ) {
+    // Not a local FHEVM node
+    return undefined;
+  }
+
+  let fromNode: Partial<FhevmMockMetadata> = {};
+  try {
+    fromNode = pickFhevmMockMetadata(await getFHEVMRelayerMetadata(rpcUrl));
+  } catch {
+    // The node does not implement fhevm_relayer_metadata, the addresses
+    // must then come from the override
+  }
+
+  const metadata = {
+    ...DEFAULT_MOCK_METADATA,
+    ...fromNode,
+    ...options?.metadata,
+  };
+  if (
+    !checkIsAddress(metadata.ACLAddress) ||
+    !checkIsAddress(metadata.InputVerifierAddress) ||
+    !checkIsAddress(metadata.KMSVerifierAddress)
+  ) {
+    // Not a FHEVM node
+    return undefined;
+  }
+  return metadata as FhevmMockMetadata;
+}
+
+async function getFHEVMRelayerMetadata(rpcUrl: string) {
+  const rpc = new JsonRpcProvider(rpcUrl);
+  try {
+    const version = await rpc.send("fhevm_relayer_metadata", []);
+    return version;
+  } catch (e) {
+    throw new FhevmNetworkError(
+      "FHEVM_RELAYER_METADATA_ERROR",
+      `The URL ${rpcUrl} is not a FHEVM Hardhat node or is not reachable. Please check the endpoint.`,
+      { cause: e }
+    );
+  } finally {
+    rpc.destroy();
+  }
+}
+
+type MockResolveResult = { isMock: true; chainId: number; rpcUrl: string };
+type GenericResolveResult = { isMock: false; chainId: number; rpcUrl?: string };
+export type ResolveResult = MockResolveResult | GenericResolveResult;
+
+/**
+ * Resolves the chain id behind `providerOrUrl` and decides whether it is one
+ * of the local mock chains. `rpcUrl` takes precedence over the `mockChains`
+ * lookup when the caller already knows the node endpoint (e.g. an ethers
+ * `JsonRpcProvider` wrapped as an EIP-1193 provider).
+ */
+export async function resolve(
+  providerOrUrl: Eip1193Provider | string,
+  mockChains?: Record<number, string>,
+  rpcUrl?: string
+): Promise<ResolveResult> {
+  // Resolve chainId
+  const chainId = await getChainId(providerOrUrl);
+
+  // Resolve rpc url
+  if (!rpcUrl) {
+    rpcUrl = typeof providerOrUrl === "string" ? providerOrUrl : undefined;
+  }
+
+  const _mockChains: Record<number, string> = {
+    31337: "http://localhost:8545",
+    ...(mockChains ?? {}),
+  };
+
+  // Help Typescript solver here:
+  if (Object.hasOwn(_mockChains, chainId)) {
+    if (!rpcUrl) {
+      rpcUrl = _mockChains[chainId];
+    }
+
+    return { isMock: true, chainId, rpcUrl };
+  }
+
+  return { isMock: false, chainId, rpcUrl };
+}
+
+/**
+ * Creates a mock instance when `rpcUrl` refers to a local FHEVM node
+ * (Hardhat and Anvil by default, see `FhevmMockOptions.detectLocalNode`).
+ * Returns `undefined` when the node is not recognized or its FHEVM addresses
+ * are unknown, in which case the caller falls back to the relayer SDK.
+ */
+export async function tryCreateFhevmMockInstance(parameters: {
+  rpcUrl: string;
+  chainId: number;
+  mock?: FhevmMockOptions;
+  onCreating?: () => void;
+}): Promise<FhevmInstance | undefined> {
+  const { rpcUrl, chainId, mock, onCreating } = parameters;
+
+  // Throws an error if cannot connect or url does not refer to a Web3 client
+  const metadata = await tryFetchFhevmLocalNodeMetadata(rpcUrl, chainId, mock);
+
+  if (!metadata) {
+    return undefined;
+  }
+
+  // metadata is defined, which means rpcUrl refers to a local FHEVM node
+  onCreating?.();
+
+  //////////////////////////////////////////////////////////////////////////
+  //
+  // WARNING!!
+  // ALWAY USE DYNAMIC IMPORT TO AVOID INCLUDING THE ENTIRE FHEVM MOCK LIB
+  // IN THE FINAL PRODUCTION BUNDLE!!
+  //
+  //////////////////////////////////////////////////////////////////////////
+  const fhevmMock = await import("./mock/fhevmMock.js");
+  return fhevmMock.fhevmMockCreateInstance({
+    rpcUrl,
+    chainId,
+    metadata,
+  });
+}
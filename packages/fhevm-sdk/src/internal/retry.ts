@@ -0,0 +1,69 @@
+import { FhevmError, FhevmRelayerError } from "./errors.js";
+
+/**
+ * Retry policy of the instance creation. Delays grow exponentially from
+ * `initialDelayMs` by `factor`, capped at `maxDelayMs`.
+ */
+export type FhevmRetryPolicy = {
+  // Number of retries after the first failure
+  retries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  // Defaults to `isTransientFhevmError`
+  shouldRetry?: (error: FhevmError, attempt: number) => boolean;
+};
+
+export const DEFAULT_FHEVM_RETRY_POLICY = {
+  retries: 3,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  factor: 2,
+} as const;
+
+/**
+ * Whether `error` may go away on its own: unreachable RPC or relayer, CDN
+ * timeouts, rate limiting and relayer server errors.
+ */
+export function isTransientFhevmError(error: FhevmError): boolean {
+  switch (error.kind) {
+    case "network":
+      return true;
+    case "loader":
+      return (
+        error.code === "RELAYER_SDK_LOAD_TIMEOUT" ||
+        error.code === "RELAYER_SDK_LOAD_FAILED"
+      );
+    case "relayer": {
+      const { status } = error as FhevmRelayerError;
+      return status === undefined || status === 429 || status >= 500;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Delay before retry number `attempt` (1-based), or `undefined` when the
+ * policy gives up on `error`.
+ */
+export function fhevmRetryDelay(
+  policy: FhevmRetryPolicy,
+  error: FhevmError,
+  attempt: number
+): number | undefined {
+  const {
+    retries = DEFAULT_FHEVM_RETRY_POLICY.retries,
+    initialDelayMs = DEFAULT_FHEVM_RETRY_POLICY.initialDelayMs,
+    maxDelayMs = DEFAULT_FHEVM_RETRY_POLICY.maxDelayMs,
+    factor = DEFAULT_FHEVM_RETRY_POLICY.factor,
+    shouldRetry = isTransientFhevmError,
+  } = policy;
+  if (error.kind === "aborted" || attempt > retries) {
+    return undefined;
+  }
+  if (!shouldRetry(error, attempt)) {
+    return undefined;
+  }
+  return Math.min(initialDelayMs * factor ** (attempt - 1), maxDelayMs);
+}
@@ -0,0 +1,150 @@
+import {
+  ethers,
+  Eip1193Provider,
+  TypedDataDomain,
+  TypedDataField,
+} from "ethers";
+
+/**
+ * Minimal typed-data signer used by the decryption signatures. Structurally
+ * compatible with ethers `Signer` (`Wallet`, `JsonRpcSigner`, ...).
+ */
+export interface FhevmTypedDataSigner {
+  getAddress(): Promise<string>;
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    message: Record<string, unknown>
+  ): Promise<string>;
+}
+
+/**
+ * Subset of a viem `WalletClient`, viem is not a dependency of the SDK.
+ */
+export interface FhevmViemWalletClientLike {
+  account?: { address: `0x${string}` } | undefined;
+  getAddresses(): Promise<readonly `0x${string}`[]>;
+  signTypedData(parameters: {
+    account: { address: `0x${string}` } | `0x${string}`;
+    domain: Record<string, unknown>;
+    types: Record<string, readonly { name: string; type: string }[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+  }): Promise<`0x${string}`>;
+}
+
+export type FhevmSignerLike =
+  | FhevmTypedDataSigner
+  | FhevmViemWalletClientLike
+  | Eip1193Provider;
+
+function _isViemWalletClient(
+  signer: FhevmSignerLike
+): signer is FhevmViemWalletClientLike {
+  return (
+    typeof (signer as FhevmViemWalletClientLike).getAddresses === "function" &&
+    typeof (signer as FhevmViemWalletClientLike).signTypedData === "function"
+  );
+}
+
+function _isTypedDataSigner(
+  signer: FhevmSignerLike
+): signer is FhevmTypedDataSigner {
+  return (
+    typeof (signer as FhevmTypedDataSigner).getAddress === "function" &&
+    typeof (signer as FhevmTypedDataSigner).signTypedData === "function"
+  );
+}
+
+function _isEip1193Provider(
+  signer: FhevmSignerLike
+): signer is Eip1193Provider {
+  return typeof (signer as Eip1193Provider).request === "function";
+}
+
+function _primaryType(types: Record<string, TypedDataField[]>): string {
+  return ethers.TypedDataEncoder.getPrimaryType(types);
+}
+
+function _fromViemWalletClient(
+  client: FhevmViemWalletClientLike,
+  account?: `0x${string}`
+): FhevmTypedDataSigner {
+  const getAddress = async () => {
+    const address =
+      account ?? client.account?.address ?? (await client.getAddresses())[0];
+    if (!address) {
+      throw new Error("The wallet client has no account");
+    }
+    return address;
+  };
+  return {
+    getAddress,
+    async signTypedData(domain, types, message) {
+      // Local accounts sign with their key, JSON-RPC ones through the wallet
+      const address = await getAddress();
+      return client.signTypedData({
+        account: client.account?.address === address ? client.account : address,
+        domain: domain as Record<string, unknown>,
+        types,
+        primaryType: _primaryType(types),
+        message,
+      });
+    },
+  };
+}
+
+function _fromEip1193Provider(
+  provider: Eip1193Provider,
+  account?: `0x${string}`
+): FhevmTypedDataSigner {
+  const getAddress = async () => {
+    if (account) {
+      return account;
+    }
+    const accounts = (await provider.request({
+      method: "eth_accounts",
+    })) as string[];
+    if (!accounts?.[0]) {
+      throw new Error("The EIP-1193 provider has no connected account");
+    }
+    return ethers.getAddress(accounts[0]);
+  };
+  return {
+    getAddress,
+    async signTypedData(domain, types, message) {
+      const address = await getAddress();
+      const payload = ethers.TypedDataEncoder.getPayload(
+        domain,
+        types,
+        message
+      );
+      return (await provider.request({
+        method: "eth_signTypedData_v4",
+        params: [address.toLowerCase(), JSON.stringify(payload)],
+      })) as string;
+    },
+  };
+}
+
+/**
+ * Adapts an ethers signer, a viem `WalletClient` or a raw EIP-1193 provider
+ * to `FhevmTypedDataSigner`. `account` selects the signing address of
+ * wallet clients and providers, defaults to their first account.
+ */
+export function toFhevmTypedDataSigner(
+  signer: FhevmSignerLike,
+  options?: { account?: `0x${string}` }
+): FhevmTypedDataSigner {
+  // viem clients also expose `request`, they are tested first
+  if (_isViemWalletClient(signer)) {
+    return _fromViemWalletClient(signer, options?.account);
+  }
+  if (_isTypedDataSigner(signer)) {
+    return signer;
+  }
+  if (_isEip1193Provider(signer)) {
+    return _fromEip1193Provider(signer, options?.account);
+  }
+  throw new TypeError("Unsupported signer, expected a typed-data signer");
+}
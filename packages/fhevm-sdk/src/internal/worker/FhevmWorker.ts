@@ -0,0 +1,249 @@
+import { Eip1193Provider } from "ethers";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInitSDKOptions } from "../fhevmTypes.js";
+import { RelayerSDKLoader, RelayerSDKLoaderOptions } from "../RelayerSDKLoader.js";
+import { FhevmLogger } from "../logger.js";
+import { fhevmWorkerMain } from "./fhevmWorkerMain.js";
+import type {
+  FhevmWorkerEncryptionMethod,
+  FhevmWorkerOutboundMessage,
+  FhevmWorkerRequestType,
+  FhevmWorkerRequests,
+} from "./fhevmWorkerTypes.js";
+import { FhevmInstance, FhevmInstanceConfig } from "../../fhevmTypes.js";
+
+export type FhevmWorkerOptions = {
+  // Defaults to an inline (blob URL) worker. Provide a factory when the
+  // Content-Security-Policy forbids `worker-src blob:`. The relayer SDK is
+  // handed to the worker as a blob URL, `script-src` must allow `blob:`.
+  createWorker?: () => Worker;
+  initOptions?: FhevmInitSDKOptions;
+};
+
+type FhevmWorkerPending = {
+  resolve: (value: unknown) => void;
+  reject: (e: unknown) => void;
+};
+
+function _createInlineWorker(): Worker {
+  const source = `(${fhevmWorkerMain.toString()})(self);`;
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "text/javascript" })
+  );
+  try {
+    return new Worker(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Main thread side of the FHEVM worker: request/response messaging and
+ * forwarding of the worker JSON-RPC calls to `provider`.
+ */
+export class FhevmWorkerClient {
+  private _worker: Worker;
+  private _provider: Eip1193Provider | string;
+  private _nextId = 0;
+  private _pending = new Map<number, FhevmWorkerPending>();
+
+  constructor(
+    provider: Eip1193Provider | string,
+    options: FhevmWorkerOptions = {}
+  ) {
+    this._provider = provider;
+    this._worker = (options.createWorker ?? _createInlineWorker)();
+    this._worker.onmessage = (event: MessageEvent) =>
+      this._onMessage(event.data);
+    this._worker.onerror = (event: ErrorEvent) => {
+      const error = new Error(`FHEVM worker error: ${event.message}`);
+      for (const pending of this._pending.values()) {
+        pending.reject(error);
+      }
+      this._pending.clear();
+    };
+  }
+
+  private async _onMessage(data: FhevmWorkerOutboundMessage) {
+    if (data.type === "rpc") {
+      try {
+        if (typeof this._provider === "string") {
+          throw new Error("JSON-RPC forwarding requires an EIP-1193 provider");
+        }
+        const result = await this._provider.request({
+          method: data.method,
+          params: data.params,
+        });
+        this._worker.postMessage({ type: "rpc-result", id: data.id, result });
+      } catch (e) {
+        const err = e as { message?: string; code?: unknown };
+        this._worker.postMessage({
+          type: "rpc-result",
+          id: data.id,
+          error: { message: err?.message ?? String(e), code: err?.code },
+        });
+      }
+      return;
+    }
+
+    const pending = this._pending.get(data.id);
+    if (!pending) {
+      return;
+    }
+    this._pending.delete(data.id);
+    if (data.type === "error") {
+      const error = new Error(data.error.message, {
+        cause: data.error.cause,
+      });
+      error.name = data.error.name;
+      pending.reject(error);
+    } else {
+      pending.resolve(data.result);
+    }
+  }
+
+  call<K extends FhevmWorkerRequestType>(
+    type: K,
+    payload?: FhevmWorkerRequests[K]["payload"]
+  ): Promise<FhevmWorkerRequests[K]["result"]> {
+    type Result = FhevmWorkerRequests[K]["result"];
+    const id = ++this._nextId;
+    return new Promise<Result>((resolve, reject) => {
+      this._pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this._worker.postMessage({ type, id, payload });
+    });
+  }
+
+  terminate() {
+    this._worker.terminate();
+    const error = new Error("FHEVM worker has been terminated");
+    for (const pending of this._pending.values()) {
+      pending.reject(error);
+    }
+    this._pending.clear();
+  }
+}
+
+const ENCRYPTION_BITS: Record<FhevmWorkerEncryptionMethod, number> = {
+  addBool: 2,
+  add8: 8,
+  add16: 16,
+  add32: 32,
+  add64: 64,
+  add128: 128,
+  add256: 256,
+  addAddress: 160,
+};
+
+/**
+ * Records the values added to an input and encrypts them in the worker. The
+ * resulting handles and proof are transferred back without copy.
+ */
+function _createWorkerEncryptedInput(
+  client: FhevmWorkerClient,
+  contractAddress: string,
+  userAddress: string
+): RelayerEncryptedInput {
+  const values: FhevmWorkerRequests["encrypt"]["payload"]["values"] = [];
+  const input = {} as RelayerEncryptedInput;
+  for (const method of Object.keys(
+    ENCRYPTION_BITS
+  ) as FhevmWorkerEncryptionMethod[]) {
+    (input as Record<string, unknown>)[method] = (value: unknown) => {
+      values.push({ method, value });
+      return input;
+    };
+  }
+  input.getBits = () =>
+    values.map(({ method }) => ENCRYPTION_BITS[method]) as ReturnType<
+      RelayerEncryptedInput["getBits"]
+    >;
+  input.encrypt = (options) =>
+    client.call("encrypt", { contractAddress, userAddress, values, options });
+  return input;
+}
+
+/**
+ * Instance whose heavy operations (encryption, keypair generation and
+ * decryption) run in a dedicated Web Worker.
+ */
+export type FhevmWorkerInstance = FhevmInstance & {
+  // Off-main-thread variant of `generateKeypair`
+  generateKeypairAsync: () => Promise<{
+    publicKey: string;
+    privateKey: string;
+  }>;
+  terminate: () => void;
+};
+
+export function isFhevmWorkerInstance(
+  instance: FhevmInstance
+): instance is FhevmWorkerInstance {
+  return (
+    typeof (instance as Partial<FhevmWorkerInstance>).generateKeypairAsync ===
+    "function"
+  );
+}
+
+/**
+ * Spawns a worker holding its own relayer instance, initialized with the keys
+ * already loaded by `instance`. Cheap synchronous calls (`createEIP712`,
+ * `getPublicKey`, ...) keep running on `instance`. The relayer SDK script is
+ * fetched on the main thread with the `loader` sources, timeout, retries and
+ * integrity hashes, then handed to the worker.
+ */
+export async function createFhevmWorkerInstance(parameters: {
+  instance: FhevmInstance;
+  config: FhevmInstanceConfig;
+  provider: Eip1193Provider | string;
+  options?: FhevmWorkerOptions;
+  loader?: Omit<RelayerSDKLoaderOptions, "trace" | "logger">;
+  logger?: FhevmLogger;
+}): Promise<FhevmWorkerInstance> {
+  const { instance, config, provider, options, loader, logger } = parameters;
+  const script = await new RelayerSDKLoader({
+    ...loader,
+    logger,
+  }).fetchScript();
+  const sdkUrl = URL.createObjectURL(
+    new Blob([script], { type: "text/javascript" })
+  );
+  const client = new FhevmWorkerClient(provider, options);
+
+  const publicKey = instance.getPublicKey();
+  const publicParams = instance.getPublicParams(2048);
+
+  try {
+    await client.call("init", {
+      sdkUrl,
+      initOptions: options?.initOptions,
+      config: {
+        ...config,
+        // An EIP-1193 provider cannot be cloned, its calls are forwarded
+        network: typeof provider === "string" ? provider : undefined,
+        publicKey: publicKey
+          ? { id: publicKey.publicKeyId, data: publicKey.publicKey }
+          : undefined,
+        publicParams: publicParams ? { 2048: publicParams } : undefined,
+      },
+    });
+  } catch (e) {
+    client.terminate();
+    throw e;
+  } finally {
+    URL.revokeObjectURL(sdkUrl);
+  }
+
+  return {
+    ...instance,
+    createEncryptedInput: (contractAddress, userAddress) =>
+      _createWorkerEncryptedInput(client, contractAddress, userAddress),
+    userDecrypt: (...args) => client.call("userDecrypt", { args }),
+    publicDecrypt: (handles) => client.call("publicDecrypt", { handles }),
+    generateKeypairAsync: () => client.call("generateKeypair"),
+    terminate: () => client.terminate(),
+  };
+}
@@ -0,0 +1,159 @@
+import type { FhevmInstance } from "../../fhevmTypes.js";
+import type {
+  FhevmWorkerRequestType,
+  FhevmWorkerRequests,
+  FhevmWorkerScope,
+} from "./fhevmWorkerTypes.js";
+
+//////////////////////////////////////////////////////////////////////////
+//
+// WARNING!!
+// THIS FUNCTION IS SERIALIZED WITH `toString()` AND RUN INSIDE A WEB
+// WORKER. IT MUST NOT REFERENCE ANYTHING OUTSIDE OF ITS OWN BODY
+// (NO IMPORTS BUT TYPES, NO MODULE-LEVEL HELPERS).
+//
+//////////////////////////////////////////////////////////////////////////
+
+/**
+ * Entry point of the FHEVM worker. Loads the relayer SDK UMD script, creates
+ * a relayer instance and serves `encrypt`, `generateKeypair`, `userDecrypt`
+ * and `publicDecrypt` requests. JSON-RPC calls of the instance are forwarded
+ * to the main thread provider.
+ */
+export function fhevmWorkerMain(scope: FhevmWorkerScope) {
+  let instance: FhevmInstance | undefined = undefined;
+  let nextRpcId = 0;
+  const pendingRpc = new Map<
+    number,
+    { resolve: (v: unknown) => void; reject: (e: unknown) => void }
+  >();
+
+  const network = {
+    request: ({ method, params }: { method: string; params?: unknown[] }) =>
+      new Promise((resolve, reject) => {
+        const id = ++nextRpcId;
+        pendingRpc.set(id, { resolve, reject });
+        scope.postMessage({ type: "rpc", id, method, params });
+      }),
+  };
+
+  const initialized = (): FhevmInstance => {
+    if (!instance) {
+      throw new Error("FHEVM worker is not initialized");
+    }
+    return instance;
+  };
+
+  const serializeError = (e: unknown) => {
+    const err = (e ?? {}) as {
+      name?: unknown;
+      message?: unknown;
+      cause?: unknown;
+    };
+    const cause = err.cause as
+      | { code?: unknown; operation?: unknown; status?: unknown }
+      | undefined;
+    return {
+      name: typeof err.name === "string" ? err.name : "Error",
+      message: typeof err.message === "string" ? err.message : String(e),
+      // Relayer errors carry a plain { code, operation, status } cause
+      cause:
+        cause && typeof cause === "object" && typeof cause.code === "string"
+          ? {
+              code: cause.code,
+              operation: cause.operation,
+              status: cause.status,
+            }
+          : undefined,
+    };
+  };
+
+  const handlers: {
+    [K in FhevmWorkerRequestType]: (
+      payload: FhevmWorkerRequests[K]["payload"]
+    ) => Promise<{
+      result: FhevmWorkerRequests[K]["result"];
+      transfer?: Transferable[];
+    }>;
+  } = {
+    async init({ sdkUrl, config, initOptions }) {
+      if (!scope.relayerSDK) {
+        scope.importScripts(sdkUrl);
+      }
+      const sdk = scope.relayerSDK;
+      if (!sdk) {
+        throw new Error("The relayer SDK script did not define relayerSDK");
+      }
+      if (!sdk.__initialized__) {
+        sdk.__initialized__ = await sdk.initSDK(initOptions);
+      }
+      instance = await sdk.createInstance({
+        ...config,
+        network: config.network ?? network,
+      });
+      return { result: true };
+    },
+    async encrypt({ contractAddress, userAddress, values, options }) {
+      const input = initialized().createEncryptedInput(
+        contractAddress,
+        userAddress
+      );
+      for (const { method, value } of values) {
+        (input[method] as (value: unknown) => unknown)(value);
+      }
+      const enc = await input.encrypt(options);
+      const buffers = new Set<ArrayBuffer>([
+        enc.inputProof.buffer as ArrayBuffer,
+        ...enc.handles.map((h) => h.buffer as ArrayBuffer),
+      ]);
+      return { result: enc, transfer: Array.from(buffers) };
+    },
+    async generateKeypair() {
+      return { result: initialized().generateKeypair() };
+    },
+    async userDecrypt({ args }) {
+      return { result: await initialized().userDecrypt(...args) };
+    },
+    async publicDecrypt({ handles }) {
+      return { result: await initialized().publicDecrypt(handles) };
+    },
+  };
+
+  scope.onmessage = async (event) => {
+    const data = event.data;
+    if (data.type === "rpc-result") {
+      const pending = pendingRpc.get(data.id);
+      pendingRpc.delete(data.id);
+      if (data.error) {
+        pending?.reject(
+          Object.assign(new Error(data.error.message), data.error)
+        );
+      } else {
+        pending?.resolve(data.result);
+      }
+      return;
+    }
+    try {
+      // The payload type follows the request type
+      const handler = handlers[data.type] as
+        | ((
+            payload: unknown
+          ) => Promise<{ result: unknown; transfer?: Transferable[] }>)
+        | undefined;
+      if (!handler) {
+        throw new Error(`Unknown FHEVM worker request: ${data.type}`);
+      }
+      const { result, transfer } = await handler(data.payload);
+      scope.postMessage(
+        { type: "result", id: data.id, result },
+        transfer ?? []
+      );
+    } catch (e) {
+      scope.postMessage({
+        type: "error",
+        id: data.id,
+        error: serializeError(e),
+      });
+    }
+  };
+}
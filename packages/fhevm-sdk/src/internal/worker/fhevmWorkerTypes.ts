@@ -0,0 +1,87 @@
+import type { FhevmInstance, FhevmInstanceConfig } from "../../fhevmTypes.js";
+import type { FhevmInitSDKOptions, FhevmRelayerSDKType } from "../fhevmTypes.js";
+
+export type FhevmWorkerEncryptionMethod =
+  | "addBool"
+  | "add8"
+  | "add16"
+  | "add32"
+  | "add64"
+  | "add128"
+  | "add256"
+  | "addAddress";
+
+type FhevmEncryptedInputResult = Awaited<
+  ReturnType<ReturnType<FhevmInstance["createEncryptedInput"]>["encrypt"]>
+>;
+
+// Payload and result of every request served by the worker
+export type FhevmWorkerRequests = {
+  init: {
+    payload: {
+      // Relayer SDK UMD script, verified on the main thread
+      sdkUrl: string;
+      config: FhevmInstanceConfig;
+      initOptions?: FhevmInitSDKOptions;
+    };
+    result: boolean;
+  };
+  encrypt: {
+    payload: {
+      contractAddress: string;
+      userAddress: string;
+      values: { method: FhevmWorkerEncryptionMethod; value: unknown }[];
+      options?: Parameters<
+        ReturnType<FhevmInstance["createEncryptedInput"]>["encrypt"]
+      >[0];
+    };
+    result: FhevmEncryptedInputResult;
+  };
+  generateKeypair: {
+    payload: undefined;
+    result: ReturnType<FhevmInstance["generateKeypair"]>;
+  };
+  userDecrypt: {
+    payload: { args: Parameters<FhevmInstance["userDecrypt"]> };
+    result: Awaited<ReturnType<FhevmInstance["userDecrypt"]>>;
+  };
+  publicDecrypt: {
+    payload: { handles: Parameters<FhevmInstance["publicDecrypt"]>[0] };
+    result: Awaited<ReturnType<FhevmInstance["publicDecrypt"]>>;
+  };
+};
+
+export type FhevmWorkerRequestType = keyof FhevmWorkerRequests;
+
+export type FhevmWorkerSerializedError = {
+  name: string;
+  message: string;
+  cause?: { code: string; operation?: unknown; status?: unknown };
+};
+
+// Messages posted by the main thread
+export type FhevmWorkerInboundMessage =
+  | { type: FhevmWorkerRequestType; id: number; payload?: unknown }
+  | {
+      type: "rpc-result";
+      id: number;
+      result?: unknown;
+      error?: { message: string; code?: unknown };
+    };
+
+// Messages posted by the worker
+export type FhevmWorkerOutboundMessage =
+  | { type: "result"; id: number; result: unknown }
+  | { type: "error"; id: number; error: FhevmWorkerSerializedError }
+  | { type: "rpc"; id: number; method: string; params?: unknown[] };
+
+// Worker global scope, as used by `fhevmWorkerMain`
+export type FhevmWorkerScope = {
+  relayerSDK?: FhevmRelayerSDKType;
+  importScripts(...urls: string[]): void;
+  postMessage(
+    message: FhevmWorkerOutboundMessage,
+    transfer?: Transferable[]
+  ): void;
+  onmessage: ((event: MessageEvent<FhevmWorkerInboundMessage>) => void) | null;
+};
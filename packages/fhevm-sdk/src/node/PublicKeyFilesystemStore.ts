@@ -0,0 +1,161 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type {
+  FhevmPublicKeyCacheMetadata,
+  FhevmPublicKeyRecord,
+  FhevmPublicParamsRecord,
+  PublicKeyStore,
+} from "../storage/PublicKeyStore.js";
+
+/**
+ * Persists the public key cache on disk, one directory per ACL address:
+ *
+ *   <directory>/<acl>/publicKey.json       metadata
+ *   <directory>/<acl>/publicKey.bin        key material
+ *   <directory>/<acl>/publicParams-<bits>.json|bin
+ *
+ * Defaults to `~/.cache/fhevm`.
+ */
+export class PublicKeyFilesystemStore implements PublicKeyStore {
+  #directory: string;
+
+  constructor(options?: { directory?: string }) {
+    this.#directory = options?.directory ?? join(homedir(), ".cache", "fhevm");
+  }
+
+  get directory(): string {
+    return this.#directory;
+  }
+
+  #aclDirectory(aclAddress: `0x${string}`) {
+    // Addresses are case-insensitive, file systems may not be
+    return join(this.#directory, aclAddress.toLowerCase());
+  }
+
+  async #read<M extends FhevmPublicKeyCacheMetadata>(
+    aclAddress: `0x${string}`,
+    name: string
+  ): Promise<{ metadata: M; data: Uint8Array } | undefined> {
+    const dir = this.#aclDirectory(aclAddress);
+    try {
+      const metadata = JSON.parse(
+        await readFile(join(dir, `${name}.json`), "utf8")
+      ) as M;
+      const data = new Uint8Array(await readFile(join(dir, `${name}.bin`)));
+      return { metadata, data };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  async #write(
+    aclAddress: `0x${string}`,
+    name: string,
+    metadata: FhevmPublicKeyCacheMetadata,
+    data: Uint8Array
+  ) {
+    const dir = this.#aclDirectory(aclAddress);
+    await mkdir(dir, { recursive: true });
+    // Binary first, so that metadata never points to missing key material
+    await writeFile(join(dir, `${name}.bin`), data);
+    await writeFile(join(dir, `${name}.json`), JSON.stringify(metadata));
+  }
+
+  async #remove(aclAddress: `0x${string}`, name: string) {
+    const dir = this.#aclDirectory(aclAddress);
+    await rm(join(dir, `${name}.json`), { force: true });
+    await rm(join(dir, `${name}.bin`), { force: true });
+  }
+
+  async getPublicKey(
+    aclAddress: `0x${string}`
+  ): Promise<FhevmPublicKeyRecord | undefined> {
+    const entry = await this.#read<Omit<FhevmPublicKeyRecord, "publicKey">>(
+      aclAddress,
+      "publicKey"
+    );
+    return entry ? { ...entry.metadata, publicKey: entry.data } : undefined;
+  }
+
+  async setPublicKey(record: FhevmPublicKeyRecord) {
+    const { publicKey, ...metadata } = record;
+    await this.#write(record.acl, "publicKey", metadata, publicKey);
+  }
+
+  async removePublicKey(aclAddress: `0x${string}`) {
+    await this.#remove(aclAddress, "publicKey");
+  }
+
+  async getPublicParams(
+    aclAddress: `0x${string}`
+  ): Promise<FhevmPublicParamsRecord[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.#aclDirectory(aclAddress));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+    const records: FhevmPublicParamsRecord[] = [];
+    for (const file of files) {
+      const m = file.match(/^(publicParams-\d+)\.json$/);
+      if (!m) {
+        continue;
+      }
+      const entry = await this.#read<
+        Omit<FhevmPublicParamsRecord, "publicParams">
+      >(aclAddress, m[1]);
+      if (entry) {
+        records.push({ ...entry.metadata, publicParams: entry.data });
+      }
+    }
+    return records;
+  }
+
+  async setPublicParams(record: FhevmPublicParamsRecord) {
+    const { publicParams, ...metadata } = record;
+    await this.#write(
+      record.acl,
+      `publicParams-${record.bits}`,
+      metadata,
+      publicParams
+    );
+  }
+
+  async removePublicParams(aclAddress: `0x${string}`, bits: number) {
+    await this.#remove(aclAddress, `publicParams-${bits}`);
+  }
+
+  async aclAddresses(): Promise<`0x${string}`[]> {
+    let dirs: string[];
+    try {
+      dirs = await readdir(this.#directory);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+    const addresses: `0x${string}`[] = [];
+    for (const dir of dirs) {
+      if (!/^0x[0-9a-f]{40}$/.test(dir)) {
+        continue;
+      }
+      const files = await readdir(join(this.#directory, dir));
+      const metadataFile = files.find((f) => f.endsWith(".json"));
+      if (metadataFile) {
+        const metadata = JSON.parse(
+          await readFile(join(this.#directory, dir, metadataFile), "utf8")
+        );
+        addresses.push(metadata.acl);
+      }
+    }
+    return addresses;
+  }
+}
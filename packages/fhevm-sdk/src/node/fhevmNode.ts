@@ -0,0 +1,92 @@
+import { Eip1193Provider, JsonRpcProvider } from "ethers";
+import type {
+  FhevmMockOptions,
+  FhevmRelayerStatusType,
+} from "../internal/fhevmTypes.js";
+import {
+  FhevmLogger,
+  FhevmScopedLogger,
+  scopeFhevmLogger,
+} from "../internal/logger.js";
+import {
+  createFhevmInstanceWithSDK,
+  logFhevmInstanceCreation,
+} from "../internal/createInstance.js";
+import { FhevmInstance } from "../fhevmTypes.js";
+import type { PublicKeyStore } from "../storage/PublicKeyStore.js";
+
+export type FhevmNodeProviderType = JsonRpcProvider | Eip1193Provider | string;
+
+/**
+ * Converts an ethers `JsonRpcProvider` into the EIP-1193 shape expected by the
+ * relayer SDK.
+ */
+function toEip1193Provider(
+  provider: FhevmNodeProviderType
+): Eip1193Provider | string {
+  if (provider instanceof JsonRpcProvider) {
+    return {
+      request: ({ method, params }) =>
+        provider.send(method, (params as unknown[] | undefined) ?? []),
+    };
+  }
+  return provider;
+}
+
+type CreateFhevmNodeInstanceParameters = {
+  provider: FhevmNodeProviderType;
+  // Endpoint of `provider`, used to detect a local mock chain. Defaults to
+  // `provider` itself when it is a URL, else to the `mockChains` entry of its
+  // chain.
+  rpcUrl?: string;
+  mockChains?: Record<number, string>;
+  // Metadata overrides and local node detection of the mock chains
+  mock?: FhevmMockOptions;
+  signal?: AbortSignal;
+  onStatusChange?: (status: FhevmRelayerStatusType) => void;
+  logger?: FhevmLogger;
+  // Public key cache backend, defaults to an in-memory store. Use a
+  // `PublicKeyFilesystemStore` to share the cache between runs.
+  publicKeyStore?: PublicKeyStore;
+};
+
+/**
+ * Node.js counterpart of `createFhevmInstance`. Uses the relayer SDK Node
+ * build instead of the browser script, so it can run in scripts, bots and
+ * backend services where `window` is not available.
+ */
+export const createFhevmNodeInstance = async (
+  parameters: CreateFhevmNodeInstanceParameters
+): Promise<FhevmInstance> => {
+  const log = scopeFhevmLogger(parameters.logger, "createFhevmNodeInstance");
+  return logFhevmInstanceCreation(log, (start) =>
+    _createFhevmNodeInstance(parameters, log, start)
+  );
+};
+
+const _createFhevmNodeInstance = async (
+  parameters: CreateFhevmNodeInstanceParameters,
+  log: FhevmScopedLogger,
+  start: number
+): Promise<FhevmInstance> => {
+  const { instance } = await createFhevmInstanceWithSDK(
+    {
+      ...parameters,
+      network: toEip1193Provider(parameters.provider),
+      loadSDK: async (notify, throwIfAborted) => {
+        notify("sdk-loading");
+
+        // The Node build initializes its WASM modules on import, there is no
+        // separate initSDK step.
+        const relayerSDK = await import("@zama-fhe/relayer-sdk/node");
+        throwIfAborted();
+
+        notify("sdk-loaded");
+        return relayerSDK;
+      },
+    },
+    log,
+    start
+  );
+  return instance;
+};
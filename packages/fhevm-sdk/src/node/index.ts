@@ -0,0 +1,6 @@
+export * from "../core/index.js";
+export * from "../storage/index.js";
+export * from "../fhevmTypes.js";
+export * from "../FhevmDecryptionSignature.js";
+export * from "./fhevmNode.js";
+export * from "./PublicKeyFilesystemStore.js";
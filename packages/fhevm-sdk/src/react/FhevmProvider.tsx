@@ -0,0 +1,42 @@
+"use client";
+
+import { ReactNode, createContext, useContext, useMemo } from "react";
+import { useFhevm } from "./useFhevm.js";
+import type { FhevmInstance } from "../fhevmTypes.js";
+
+type FhevmProviderProps = Parameters<typeof useFhevm>[0] & { children: ReactNode };
+
+type FhevmContextState = ReturnType<typeof useFhevm> & {
+  chainId: number | undefined;
+  initialMockChains: Readonly<Record<number, string>> | undefined;
+};
+
+const FhevmContext = createContext<FhevmContextState | undefined>(undefined);
+
+export const useFhevmContext = () => {
+  const context = useContext(FhevmContext);
+  if (!context) {
+    throw new Error("useFhevmContext must be used within a FhevmProvider");
+  }
+  return context;
+};
+
+// Instance of the provider's chain, `undefined` until ready
+export const useFhevmInstance = (): FhevmInstance | undefined => useFhevmContext().instance;
+
+/**
+ * Creates the FHEVM instance of `chainId` once for the whole app. Accepts the
+ * `useFhevm` parameters, descendants read the instance and its status with
+ * `useFhevmContext` or `useFhevmInstance`.
+ */
+export const FhevmProvider: React.FC<FhevmProviderProps> = ({ children, ...parameters }) => {
+  const { instance, refresh, error, status, subStatus, timings, attempt, nextRetryAt } = useFhevm(parameters);
+  const { chainId, initialMockChains } = parameters;
+
+  const value = useMemo<FhevmContextState>(
+    () => ({ instance, refresh, error, status, subStatus, timings, attempt, nextRetryAt, chainId, initialMockChains }),
+    [instance, refresh, error, status, subStatus, timings, attempt, nextRetryAt, chainId, initialMockChains],
+  );
+
+  return <FhevmContext.Provider value={value}>{children}</FhevmContext.Provider>;
+};
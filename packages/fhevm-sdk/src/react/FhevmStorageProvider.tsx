@@ -0,0 +1,113 @@
+"use client";
+
+import { ReactNode, createContext, useContext, useMemo, useState } from "react";
+import {
+  GenericStringInMemoryStorage,
+  GenericStringNamespacedStorage,
+  GenericStringStorage,
+  fhevmStorageNamespace,
+  isEnumerableStringStorage,
+} from "../storage/GenericStringStorage.js";
+import { GenericStringLocalStorage, GenericStringSessionStorage } from "../storage/GenericStringWebStorage.js";
+import { GenericStringIndexedDBStorage } from "../storage/GenericStringIndexedDBStorage.js";
+import { EncryptedStringStorage } from "../storage/EncryptedStringStorage.js";
+
+export type FhevmStorageBackend = "memory" | "localStorage" | "sessionStorage" | "indexedDB";
+
+interface FhevmStorageState {
+  // Enumerable as long as a custom backend is, see `isEnumerableStringStorage`
+  storage: GenericStringStorage;
+  // Backend actually in use, "memory" when the requested one is unavailable
+  backend: FhevmStorageBackend | "custom";
+}
+
+interface FhevmStorageProviderProps {
+  children: ReactNode;
+  // Defaults to "memory"
+  backend?: FhevmStorageBackend | GenericStringStorage;
+  // Encrypts stored values with a non-extractable key kept in IndexedDB
+  encrypt?: boolean;
+  // Keys are namespaced with `prefix`, `chainId` and `account` when provided
+  prefix?: string;
+  chainId?: number;
+  account?: string;
+}
+
+const FhevmStorageContext = createContext<FhevmStorageState | undefined>(undefined);
+
+function _createBackend(backend: FhevmStorageBackend): { storage: GenericStringStorage; backend: FhevmStorageBackend } {
+  // Browser storages do not exist during server-side rendering
+  try {
+    switch (backend) {
+      case "localStorage":
+        if (typeof window !== "undefined" && window.localStorage) {
+          return { storage: new GenericStringLocalStorage(), backend };
+        }
+        break;
+      case "sessionStorage":
+        if (typeof window !== "undefined" && window.sessionStorage) {
+          return { storage: new GenericStringSessionStorage(), backend };
+        }
+        break;
+      case "indexedDB":
+        if (typeof indexedDB !== "undefined") {
+          return { storage: new GenericStringIndexedDBStorage(), backend };
+        }
+        break;
+    }
+  } catch {
+    // Access to Web Storage throws when blocked by the browser settings
+  }
+  return { storage: new GenericStringInMemoryStorage(), backend: "memory" };
+}
+
+// The storage wrappers list their keys through the wrapped storage, hide them when it cannot
+function _withoutKeys(storage: GenericStringStorage): GenericStringStorage {
+  return {
+    getItem: key => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: key => storage.removeItem(key),
+  };
+}
+
+export const useFhevmStorage = () => {
+  const context = useContext(FhevmStorageContext);
+  if (!context) {
+    throw new Error("useFhevmStorage must be used within a FhevmStorageProvider");
+  }
+  return context;
+};
+
+/**
+ * Provides the `GenericStringStorage` used to persist decryption signatures.
+ * The backend is created once, changing `chainId` or `account` only changes
+ * the namespace.
+ */
+export const FhevmStorageProvider: React.FC<FhevmStorageProviderProps> = ({
+  children,
+  backend = "memory",
+  encrypt = false,
+  prefix,
+  chainId,
+  account,
+}) => {
+  const [base] = useState(() => {
+    const created =
+      typeof backend === "string" ? _createBackend(backend) : { storage: backend, backend: "custom" as const };
+    return {
+      backend: created.backend,
+      storage: encrypt ? EncryptedStringStorage.withDeviceKey(created.storage) : created.storage,
+      isEnumerable: isEnumerableStringStorage(created.storage),
+    };
+  });
+
+  const value = useMemo<FhevmStorageState>(() => {
+    const storage = new GenericStringNamespacedStorage(
+      base.storage,
+      fhevmStorageNamespace({ prefix, chainId, account }),
+    );
+    return { backend: base.backend, storage: base.isEnumerable ? storage : _withoutKeys(storage) };
+  }, [base, prefix, chainId, account]);
+
+  return <FhevmStorageContext.Provider value={value}>{children}</FhevmStorageContext.Provider>;
+};
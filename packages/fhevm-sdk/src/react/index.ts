@@ -1,5 +1,8 @@
-export * from "./useFhevm";
-export * from "./useFHEEncryption";
-export * from "./useFHEDecrypt";
-export * from "./useInMemoryStorage";
-
+export * from "./useFhevm.js";
+export * from "./useFHEEncryption.js";
+export * from "./useFHEDecrypt.js";
+export * from "./useInMemoryStorage.js";
+export * from "./FhevmStorageProvider.js";
+export * from "./useFhevmDecryptionSignatures.js";
+export * from "./usePublicDecrypt.js";
+export * from "./FhevmProvider.js";
@@ -1,129 +1,485 @@
 "use client";
 
-import { useCallback, useMemo, useRef, useState } from "react";
-import { FhevmDecryptionSignature } from "../FhevmDecryptionSignature.js";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_SIGNATURE_DURATION_DAYS, FhevmDecryptionSignature } from "../FhevmDecryptionSignature.js";
 import { GenericStringStorage } from "../storage/GenericStringStorage.js";
+import { FhevmClearValue, FhevmDecryptedValueCache } from "../FhevmDecryptedValueCache.js";
 import { FhevmInstance } from "../fhevmTypes.js";
 import { ethers } from "ethers";
+import { FhevmSignerLike, toFhevmTypedDataSigner } from "../internal/signer.js";
+import { FhevmLogger, scopeFhevmLogger } from "../internal/logger.js";
+import { FhevmError, toFhevmError } from "../internal/errors.js";
+import {
+  DEFAULT_DECRYPT_CHUNK_SIZE,
+  DEFAULT_DECRYPT_CONCURRENCY,
+  FhevmDecryptProgress,
+  decryptInChunks,
+} from "../internal/batchDecrypt.js";
+import { FhevmDecryptSession, pendingDecryptRequests } from "../internal/decryptSession.js";
 
 export type FHEDecryptRequest = { handle: string; contractAddress: `0x${string}` };
 
+export type FHEDecryptSignatureStatus = "none" | "valid" | "expiring-soon" | "expired";
+
+// Default window before expiry in which a signature is reported as expiring soon
+export const DEFAULT_SIGNATURE_RENEW_BEFORE_SECONDS = 24 * 60 * 60;
+
+// setTimeout delays are capped to a signed 32-bit number of milliseconds
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Decrypts the handles of `requests` with a decryption signature of the
+ * signer, signing one when none is stored. `error` is a `FhevmError | null`,
+ * it used to be a string: read `error.message` for the text and `error.code`
+ * to react to a specific failure.
+ */
 export const useFHEDecrypt = (params: {
   instance: FhevmInstance | undefined;
-  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersSigner?: ethers.JsonRpcSigner | undefined;
+  // Any typed-data signer (ethers, viem WalletClient, EIP-1193 provider), takes precedence over `ethersSigner`
+  signer?: FhevmSignerLike | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
   chainId: number | undefined;
   requests: readonly FHEDecryptRequest[] | undefined;
+  logger?: FhevmLogger;
+  // Validity window of new decryption signatures, defaults to 365 days
+  signatureDurationDays?: number;
+  // Seconds before expiry at which the signature becomes "expiring-soon"
+  signatureRenewBeforeSeconds?: number;
+  // Re-sign as soon as the signature is expiring soon instead of waiting for it to expire
+  autoRenewSignature?: boolean;
+  // Contracts also covered when a signature is requested, e.g. all the app contracts, so one prompt serves them all
+  signatureContractAddresses?: readonly `0x${string}`[];
+  // Persists decrypted values per signer and chain, only handles never decrypted before hit the relayer
+  decryptedValueStorage?: GenericStringStorage;
+  // Maximum number of handles per relayer request, chunks also respect the relayer size limits
+  decryptChunkSize?: number;
+  // Number of chunks decrypted in parallel
+  decryptConcurrency?: number;
+  // Decrypts new handles as soon as a valid signature is stored, without prompting the wallet
+  auto?: boolean;
 }) => {
-  const { instance, ethersSigner, fhevmDecryptionSignatureStorage, chainId, requests } = params;
+  const {
+    instance,
+    ethersSigner,
+    signer: signerLike = ethersSigner,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    requests,
+    logger,
+    signatureDurationDays = DEFAULT_SIGNATURE_DURATION_DAYS,
+    signatureRenewBeforeSeconds = DEFAULT_SIGNATURE_RENEW_BEFORE_SECONDS,
+    autoRenewSignature = false,
+    signatureContractAddresses,
+    decryptedValueStorage,
+    decryptChunkSize = DEFAULT_DECRYPT_CHUNK_SIZE,
+    decryptConcurrency = DEFAULT_DECRYPT_CONCURRENCY,
+    auto = false,
+  } = params;
+
+  const log = useMemo(() => scopeFhevmLogger(logger, "useFHEDecrypt"), [logger]);
+
+  const signer = useMemo(() => (signerLike ? toFhevmTypedDataSigner(signerLike) : undefined), [signerLike]);
 
   const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
   const [message, setMessage] = useState<string>("");
-  const [results, setResults] = useState<Record<string, string | bigint | boolean>>({});
-  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, FhevmClearValue>>({});
+  const [error, setError] = useState<FhevmError | null>(null);
+  const [progress, setProgress] = useState<FhevmDecryptProgress | undefined>(undefined);
+  const [failures, setFailures] = useState<Record<string, FhevmError>>({});
+  const [signature, setSignature] = useState<FhevmDecryptionSignature | undefined>(undefined);
+  const [signatureStatus, setSignatureStatus] = useState<FHEDecryptSignatureStatus>("none");
+  const [isRenewingSignature, setIsRenewingSignature] = useState<boolean>(false);
 
   const isDecryptingRef = useRef<boolean>(isDecrypting);
-  const lastReqKeyRef = useRef<string>("");
+  const isRenewingSignatureRef = useRef<boolean>(false);
+  // Results accumulate for the session, a new chain or signer starts a new one
+  const [session] = useState(() => new FhevmDecryptSession());
 
-  const requestsKey = useMemo(() => {
-    if (!requests || requests.length === 0) return "";
-    const sorted = [...requests].sort((a, b) =>
-      (a.handle + a.contractAddress).localeCompare(b.handle + b.contractAddress),
-    );
-    return JSON.stringify(sorted);
-  }, [requests]);
+  useEffect(() => {
+    session.reset();
+    setResults(session.results);
+    setFailures({});
+    setProgress(undefined);
+  }, [session, chainId, signer]);
+
+  const hasPendingRequests = useMemo(() => pendingDecryptRequests(requests, results).length > 0, [requests, results]);
 
   const canDecrypt = useMemo(() => {
-    return Boolean(instance && ethersSigner && requests && requests.length > 0 && !isDecrypting);
-  }, [instance, ethersSigner, requests, isDecrypting]);
+    return Boolean(instance && signer && hasPendingRequests && !isDecrypting);
+  }, [instance, signer, hasPendingRequests, isDecrypting]);
+
+  const contractAddressesKey = useMemo(
+    () =>
+      Array.from(new Set((requests ?? []).map(r => r.contractAddress)))
+        .sort()
+        .join(","),
+    [requests],
+  );
+  const contractAddresses = useMemo(
+    () => (contractAddressesKey ? (contractAddressesKey.split(",") as `0x${string}`[]) : []),
+    [contractAddressesKey],
+  );
 
-  const decrypt = useCallback(() => {
-    if (isDecryptingRef.current) return;
-    if (!instance || !ethersSigner || !requests || requests.length === 0) return;
+  const preSignKey = (signatureContractAddresses ?? []).join(",");
+  const preSignContractAddresses = useMemo(() => (preSignKey ? preSignKey.split(",") : []), [preSignKey]);
+
+  // Show previously decrypted values right away
+  useEffect(() => {
+    if (!decryptedValueStorage || !signer || chainId === undefined || !requests || requests.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    const sessionId = session.id;
+    const handles = requests.map(r => r.handle);
+    signer
+      .getAddress()
+      .then(userAddress =>
+        new FhevmDecryptedValueCache(decryptedValueStorage, { chainId, userAddress }).getMany(handles),
+      )
+      .then(
+        cached => {
+          if (!cancelled && Object.keys(cached).length > 0 && session.merge(sessionId, cached)) {
+            setResults(session.results);
+          }
+        },
+        e => log.warn("cache.failed", { error: e }),
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [session, decryptedValueStorage, signer, chainId, requests, log]);
 
-    const thisChainId = chainId;
-    const thisSigner = ethersSigner;
-    const thisRequests = requests;
+  // Surface the expiry of an already stored signature without prompting the wallet
+  useEffect(() => {
+    if (!instance || !signer || contractAddresses.length === 0) {
+      setSignature(undefined);
+      return;
+    }
+    let cancelled = false;
+    signer
+      .getAddress()
+      .then(userAddress =>
+        FhevmDecryptionSignature.loadFromGenericStringStorage(
+          fhevmDecryptionSignatureStorage,
+          instance,
+          [...contractAddresses],
+          userAddress,
+        ),
+      )
+      .then(
+        sig => {
+          if (!cancelled) setSignature(sig ?? undefined);
+        },
+        () => {
+          if (!cancelled) setSignature(undefined);
+        },
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [instance, signer, fhevmDecryptionSignatureStorage, contractAddresses]);
 
-    // Capture the current requests key to avoid false "stale" detection on first run
-    lastReqKeyRef.current = requestsKey;
+  // Tracks the signature status, switching to "expiring-soon" then "expired" on time
+  useEffect(() => {
+    if (!signature) {
+      setSignatureStatus("none");
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const update = () => {
+      const remaining = signature.remainingSeconds;
+      if (remaining <= 0) {
+        setSignatureStatus("expired");
+        return;
+      }
+      const isExpiringSoon = remaining <= signatureRenewBeforeSeconds;
+      setSignatureStatus(isExpiringSoon ? "expiring-soon" : "valid");
+      const nextChangeSeconds = isExpiringSoon ? remaining : remaining - signatureRenewBeforeSeconds;
+      timer = setTimeout(update, Math.min(nextChangeSeconds * 1000, MAX_TIMEOUT_MS));
+    };
+    update();
+    return () => clearTimeout(timer);
+  }, [signature, signatureRenewBeforeSeconds]);
 
-    isDecryptingRef.current = true;
-    setIsDecrypting(true);
-    setMessage("Start decrypt");
-    setError(null);
+  const renewSignature = useCallback(async () => {
+    if (isRenewingSignatureRef.current) return;
+    if (!instance || !signer) return;
+    const addresses = contractAddresses.length > 0 ? contractAddresses : signature?.contractAddresses;
+    if (!addresses || addresses.length === 0) return;
 
-    const run = async () => {
-      const isStale = () =>
-        thisChainId !== chainId || thisSigner !== ethersSigner || requestsKey !== lastReqKeyRef.current;
+    isRenewingSignatureRef.current = true;
+    setIsRenewingSignature(true);
+    try {
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        instance,
+        [...addresses],
+        signer,
+        fhevmDecryptionSignatureStorage,
+        undefined,
+        {
+          durationDays: signatureDurationDays,
+          renewBeforeSeconds: signatureRenewBeforeSeconds,
+          preSignContractAddresses,
+        },
+      );
+      log.info("signature.renewed", { data: { expiresAt: sig.expiresAt } });
+      setSignature(sig);
+    } catch (e) {
+      const err = toFhevmError(e, "signature");
+      log.error("signature.failed", { code: err.code, error: err });
+      setError(err);
+    } finally {
+      isRenewingSignatureRef.current = false;
+      setIsRenewingSignature(false);
+    }
+  }, [
+    instance,
+    signer,
+    fhevmDecryptionSignatureStorage,
+    contractAddresses,
+    signature,
+    signatureDurationDays,
+    signatureRenewBeforeSeconds,
+    preSignContractAddresses,
+    log,
+  ]);
 
-      try {
-        const uniqueAddresses = Array.from(new Set(thisRequests.map(r => r.contractAddress)));
-        const sig: FhevmDecryptionSignature | null = await FhevmDecryptionSignature.loadOrSign(
-          instance,
-          uniqueAddresses as `0x${string}`[],
-          ethersSigner,
-          fhevmDecryptionSignatureStorage,
-        );
+  useEffect(() => {
+    if (autoRenewSignature && signatureStatus === "expiring-soon" && !isDecryptingRef.current) {
+      renewSignature();
+    }
+  }, [autoRenewSignature, signatureStatus, renewSignature]);
 
-        if (!sig) {
-          setMessage("Unable to build FHEVM decryption signature");
-          setError("SIGNATURE_ERROR: Failed to create decryption signature");
-          return;
-        }
+  // Auto runs never prompt the wallet, they only use a stored signature
+  const runDecrypt = useCallback(
+    (isAuto: boolean) => {
+      if (isDecryptingRef.current) return;
+      if (!instance || !signer || !requests || requests.length === 0) return;
 
-        if (isStale()) {
-          setMessage("Ignore FHEVM decryption");
-          return;
-        }
+      const thisChainId = chainId;
+      const thisSession = session.id;
+      // Auto runs only request new handles, an explicit decrypt also retries the failed ones
+      const thisRequests = session.pending(requests, isAuto ? failures : undefined);
+      if (thisRequests.length === 0) {
+        setMessage("All handles already decrypted");
+        return;
+      }
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Start decrypt");
+      setError(null);
+      setFailures(prev => {
+        const next = { ...prev };
+        for (const r of thisRequests) delete next[r.handle];
+        return next;
+      });
+      setProgress(undefined);
+
+      // Failures without a per-handle cause are reported for every requested handle
+      const failAll = (err: FhevmError) =>
+        setFailures(prev => ({ ...prev, ...Object.fromEntries(thisRequests.map(r => [r.handle, err])) }));
 
-        setMessage("Call FHEVM userDecrypt...");
+      const run = async () => {
+        const start = Date.now();
+        log.debug("decrypt.start", { data: { chainId: thisChainId, handles: thisRequests.length } });
+
+        const isStale = () => session.isStale(thisSession);
 
-        const mutableReqs = thisRequests.map(r => ({ handle: r.handle, contractAddress: r.contractAddress }));
-        let res: Record<string, string | bigint | boolean> = {};
         try {
-          res = await instance.userDecrypt(
-            mutableReqs,
-            sig.privateKey,
-            sig.publicKey,
-            sig.signature,
-            sig.contractAddresses,
-            sig.userAddress,
-            sig.startTimestamp,
-            sig.durationDays,
+          const cache =
+            decryptedValueStorage && thisChainId !== undefined
+              ? new FhevmDecryptedValueCache(decryptedValueStorage, {
+                  chainId: thisChainId,
+                  userAddress: await signer.getAddress(),
+                })
+              : undefined;
+          const cached = cache ? await cache.getMany(thisRequests.map(r => r.handle)) : {};
+          const pendingRequests = thisRequests.filter(r => !(r.handle in cached));
+
+          const cachedCount = thisRequests.length - pendingRequests.length;
+          setProgress({ decrypted: cachedCount, failed: 0, total: thisRequests.length });
+
+          if (pendingRequests.length === 0) {
+            log.info("decrypt.cached", { durationMs: Date.now() - start, data: { handles: thisRequests.length } });
+            setMessage("FHEVM values loaded from cache");
+            if (session.merge(thisSession, cached)) setResults(session.results);
+            return;
+          }
+
+          const uniqueAddresses = Array.from(new Set(pendingRequests.map(r => r.contractAddress)));
+          let sig: FhevmDecryptionSignature;
+          try {
+            if (isAuto) {
+              // Auto runs look up the signature of all the requested contracts, the one reported by `signatureStatus`
+              const stored = await FhevmDecryptionSignature.loadFromGenericStringStorage(
+                fhevmDecryptionSignatureStorage,
+                instance,
+                [...contractAddresses],
+                await signer.getAddress(),
+              );
+              if (!stored) {
+                log.debug("decrypt.skipped", { data: { handles: pendingRequests.length } });
+                setMessage("No stored FHEVM decryption signature, call decrypt to sign one");
+                // Auto mode resumes once a signature is stored again
+                if (!isStale()) setSignature(undefined);
+                return;
+              }
+              sig = stored;
+            } else {
+              sig = await FhevmDecryptionSignature.loadOrSign(
+                instance,
+                uniqueAddresses as `0x${string}`[],
+                signer,
+                fhevmDecryptionSignatureStorage,
+                undefined,
+                {
+                  durationDays: signatureDurationDays,
+                  renewBeforeSeconds: autoRenewSignature ? signatureRenewBeforeSeconds : undefined,
+                  preSignContractAddresses,
+                },
+              );
+            }
+            setSignature(sig);
+          } catch (e) {
+            const err = toFhevmError(e, "signature");
+            log.error("signature.failed", { durationMs: Date.now() - start, code: err.code, error: err });
+            setMessage("Unable to build FHEVM decryption signature");
+            setError(err);
+            if (!isStale()) failAll(err);
+            return;
+          }
+
+          if (isStale()) {
+            setMessage("Ignore FHEVM decryption");
+            return;
+          }
+
+          setMessage("Call FHEVM userDecrypt...");
+
+          const { results: res, failures: failed } = await decryptInChunks(
+            pendingRequests,
+            chunk =>
+              instance.userDecrypt(
+                chunk.map(r => ({ handle: r.handle, contractAddress: r.contractAddress })),
+                sig.privateKey,
+                sig.publicKey,
+                sig.signature,
+                sig.contractAddresses,
+                sig.userAddress,
+                sig.startTimestamp,
+                sig.durationDays,
+              ),
+            {
+              chunkSize: decryptChunkSize,
+              concurrency: decryptConcurrency,
+              logger,
+              onChunk: async (chunkResults, chunkProgress) => {
+                if (cache) {
+                  try {
+                    await cache.setMany(chunkResults);
+                  } catch (e) {
+                    log.warn("cache.failed", { error: e });
+                  }
+                }
+                // Partial results are shown as soon as each chunk completes
+                if (!session.merge(thisSession, chunkResults)) return;
+                setResults(session.results);
+                setProgress({
+                  ...chunkProgress,
+                  decrypted: cachedCount + chunkProgress.decrypted,
+                  total: thisRequests.length,
+                });
+              },
+            },
           );
-        } catch (e) {
-          const err = e as unknown as { name?: string; message?: string };
-          const code = err && typeof err === "object" && "name" in (err as any) ? (err as any).name : "DECRYPT_ERROR";
-          const msg = err && typeof err === "object" && "message" in (err as any) ? (err as any).message : "Decryption failed";
-          setError(`${code}: ${msg}`);
-          setMessage("FHEVM userDecrypt failed");
-          return;
-        }
 
-        setMessage("FHEVM userDecrypt completed!");
+          const failedCount = Object.keys(failed).length;
+          log.info("decrypt.done", {
+            durationMs: Date.now() - start,
+            data: { handles: pendingRequests.length, cached: cachedCount, failed: failedCount },
+          });
+
+          if (isStale()) {
+            setMessage("Ignore FHEVM decryption");
+            return;
+          }
+
+          setFailures(prev => ({ ...prev, ...failed }));
+          if (failedCount > 0) {
+            const firstError = Object.values(failed)[0];
+            log.error("decrypt.failed", { durationMs: Date.now() - start, code: firstError.code, error: firstError });
+            setError(firstError);
+            setMessage(
+              failedCount === pendingRequests.length
+                ? "FHEVM userDecrypt failed"
+                : `FHEVM userDecrypt completed, ${failedCount} of ${thisRequests.length} handles failed`,
+            );
+          } else {
+            setMessage("FHEVM userDecrypt completed!");
+          }
 
-        if (isStale()) {
-          setMessage("Ignore FHEVM decryption");
-          return;
+          if (session.merge(thisSession, { ...cached, ...res })) setResults(session.results);
+        } catch (e) {
+          const err = toFhevmError(e, "decrypt");
+          log.error("decrypt.failed", { durationMs: Date.now() - start, code: err.code, error: err });
+          setError(err);
+          setMessage("FHEVM decryption errored");
+          if (!isStale()) failAll(err);
+        } finally {
+          isDecryptingRef.current = false;
+          setIsDecrypting(false);
         }
+      };
 
-        setResults(res);
-      } catch (e) {
-        const err = e as unknown as { name?: string; message?: string };
-        const code = err && typeof err === "object" && "name" in (err as any) ? (err as any).name : "UNKNOWN_ERROR";
-        const msg = err && typeof err === "object" && "message" in (err as any) ? (err as any).message : "Unknown error";
-        setError(`${code}: ${msg}`);
-        setMessage("FHEVM decryption errored");
-      } finally {
-        isDecryptingRef.current = false;
-        setIsDecrypting(false);
-        lastReqKeyRef.current = requestsKey;
-      }
-    };
+      run();
+    },
+    [
+      session,
+      instance,
+      signer,
+      fhevmDecryptionSignatureStorage,
+      chainId,
+      requests,
+      failures,
+      contractAddresses,
+      signatureDurationDays,
+      signatureRenewBeforeSeconds,
+      autoRenewSignature,
+      preSignContractAddresses,
+      decryptedValueStorage,
+      decryptChunkSize,
+      decryptConcurrency,
+      logger,
+      log,
+    ],
+  );
+
+  const decrypt = useCallback(() => runDecrypt(false), [runDecrypt]);
 
-    run();
-  }, [instance, ethersSigner, fhevmDecryptionSignatureStorage, chainId, requests, requestsKey]);
+  // Auto mode waits for a stored signature, and skips handles that already failed
+  useEffect(() => {
+    if (!auto || isDecrypting || !signature?.isValid()) return;
+    if (pendingDecryptRequests(requests, results, failures).length === 0) return;
+    runDecrypt(true);
+  }, [auto, isDecrypting, signature, requests, results, failures, runDecrypt]);
 
-  return { canDecrypt, decrypt, isDecrypting, message, results, error, setMessage, setError } as const;
+  return {
+    canDecrypt,
+    decrypt,
+    isDecrypting,
+    message,
+    results,
+    progress,
+    failures,
+    error,
+    setMessage,
+    setError,
+    signatureStatus,
+    signatureExpiresAt: signature?.expiresAt,
+    signatureRemainingSeconds: signature?.remainingSeconds,
+    renewSignature,
+    isRenewingSignature,
+  } as const;
 };
\ No newline at end of file
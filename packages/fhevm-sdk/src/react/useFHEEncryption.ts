@@ -1,9 +1,17 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { FhevmInstance } from "../fhevmTypes.js";
 import { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
 import { ethers } from "ethers";
+import { FhevmLogger, scopeFhevmLogger } from "../internal/logger.js";
+import { FhevmEncryptError, FhevmError, toFhevmError } from "../internal/errors.js";
+import {
+  FhevmEncryptedInputBuilder,
+  FhevmEncryptedType,
+  FhevmEncryptedValue,
+  fhevmEncryptedTypeOf,
+} from "../internal/encryptedInput.js";
 
 export type EncryptResult = {
   handles: Uint8Array[];
@@ -30,8 +38,7 @@ export const getEncryptionMethod = (internalType: string) => {
     case "externalEaddress":
       return "addAddress" as const;
     default:
-      console.warn(`Unknown internalType: ${internalType}, defaulting to add64`);
-      return "add64" as const;
+      throw new FhevmEncryptError("UNSUPPORTED_ENCRYPTED_TYPE", `Unsupported encrypted internalType ${internalType}`);
   }
 };
 
@@ -44,28 +51,102 @@ export const toHex = (value: Uint8Array | string): `0x${string}` => {
   return ("0x" + Buffer.from(value).toString("hex")) as `0x${string}`;
 };
 
-// Build contract params from EncryptResult and ABI for a given function
-export const buildParamsFromAbi = (enc: EncryptResult, abi: any[], functionName: string): any[] => {
+// Parameter values by ABI input name, or in ABI order without the input proof
+export type AbiParamValues = Readonly<Record<string, unknown>> | readonly unknown[];
+
+type AbiInput = { name: string; type: string; internalType?: string };
+
+const _findFunctionInputs = (abi: readonly any[], functionName: string): AbiInput[] => {
   const fn = abi.find((item: any) => item.type === "function" && item.name === functionName);
   if (!fn) throw new Error(`Function ABI not found for ${functionName}`);
+  return fn.inputs ?? [];
+};
+
+const _valueOf = (values: AbiParamValues | undefined, input: AbiInput, position: number) =>
+  Array.isArray(values) ? values[position] : (values as Readonly<Record<string, unknown>> | undefined)?.[input.name];
+
+// `externalE*` inputs, and untyped bytes32 inputs (human-readable ABIs) the caller gives no value for
+const _isEncryptedInput = (input: AbiInput, values: AbiParamValues | undefined, position: number) =>
+  input.internalType
+    ? input.internalType.startsWith("externalE")
+    : input.type === "bytes32" && _valueOf(values, input, position) === undefined;
+
+// Index of the `bytes` input proof: named like "proof", else the only `bytes` input
+const _findProofIndex = (inputs: AbiInput[]) => {
+  const bytesIndexes = inputs.flatMap((input, index) => (input.type === "bytes" ? [index] : []));
+  const named = bytesIndexes.find(index => /proof/i.test(inputs[index].name));
+  if (named !== undefined) return named;
+  return bytesIndexes.length === 1 ? bytesIndexes[0] : -1;
+};
+
+// Walks the inputs of `functionName` with their position among the non-proof inputs
+const _forEachParam = (
+  abi: readonly any[],
+  functionName: string,
+  values: AbiParamValues | undefined,
+  visit: (input: AbiInput, position: number, isProof: boolean, isEncrypted: boolean) => unknown,
+) => {
+  const inputs = _findFunctionInputs(abi, functionName);
+  const proofIndex = _findProofIndex(inputs);
+  let position = 0;
+  return inputs.map((input, index) => {
+    if (index === proofIndex) return visit(input, -1, true, false);
+    const thisPosition = position++;
+    return visit(input, thisPosition, false, _isEncryptedInput(input, values, thisPosition));
+  });
+};
+
+/**
+ * Adds the value of every `externalE*` input of `functionName` to `builder`,
+ * in ABI order, so that a single input proof covers them all. Values are
+ * validated against their encrypted type.
+ */
+export const addEncryptedParamsFromAbi = (
+  builder: RelayerEncryptedInput,
+  abi: readonly any[],
+  functionName: string,
+  values: AbiParamValues,
+): void => {
+  const typed = new FhevmEncryptedInputBuilder(builder);
+  _forEachParam(abi, functionName, values, (input, position, isProof, isEncrypted) => {
+    if (!isEncrypted) return;
+    const value = _valueOf(values, input, position);
+    if (value === undefined) throw new Error(`Missing value for encrypted parameter ${input.name} of ${functionName}`);
+    // Untyped bytes32 inputs of human-readable ABIs keep the former 64-bit default
+    const type = input.internalType ? fhevmEncryptedTypeOf(input.internalType) : "euint64";
+    if (!type) {
+      throw new FhevmEncryptError(
+        "UNSUPPORTED_ENCRYPTED_TYPE",
+        `Unsupported encrypted type ${input.internalType} for ${input.name} of ${functionName}`,
+        { parameter: input.name },
+      );
+    }
+    typed.add(type, value as FhevmEncryptedValue<FhevmEncryptedType>, input.name);
+  });
+};
 
-  return fn.inputs.map((input: any, index: number) => {
-    const raw = index === 0 ? enc.handles[0] : enc.inputProof;
-    switch (input.type) {
-      case "bytes32":
-      case "bytes":
-        return toHex(raw);
-      case "uint256":
-        return BigInt(raw as unknown as string);
-      case "address":
-      case "string":
-        return raw as unknown as string;
-      case "bool":
-        return Boolean(raw);
-      default:
-        console.warn(`Unknown ABI param type ${input.type}; passing as hex`);
-        return toHex(raw);
+/**
+ * Builds the arguments of `functionName`: encrypted inputs receive the
+ * handles in order, the `bytes` proof input receives `enc.inputProof`, and
+ * plaintext inputs are taken from `values`.
+ */
+export const buildParamsFromAbi = (
+  enc: EncryptResult,
+  abi: readonly any[],
+  functionName: string,
+  values?: AbiParamValues,
+): any[] => {
+  let nextHandle = 0;
+  return _forEachParam(abi, functionName, values, (input, position, isProof, isEncrypted) => {
+    if (isProof) return toHex(enc.inputProof);
+    if (isEncrypted) {
+      const handle = enc.handles[nextHandle++];
+      if (!handle) throw new Error(`Missing encrypted handle for parameter ${input.name} of ${functionName}`);
+      return toHex(handle);
     }
+    const value = _valueOf(values, input, position);
+    if (value === undefined) throw new Error(`Missing value for parameter ${input.name} of ${functionName}`);
+    return value;
   });
 };
 
@@ -73,8 +154,13 @@ export const useFHEEncryption = (params: {
   instance: FhevmInstance | undefined;
   ethersSigner: ethers.JsonRpcSigner | undefined;
   contractAddress: `0x${string}` | undefined;
+  logger?: FhevmLogger;
 }) => {
-  const { instance, ethersSigner, contractAddress } = params;
+  const { instance, ethersSigner, contractAddress, logger } = params;
+
+  const log = useMemo(() => scopeFhevmLogger(logger, "useFHEEncryption"), [logger]);
+
+  const [error, setError] = useState<FhevmError | null>(null);
 
   const canEncrypt = useMemo(
     () => Boolean(instance && ethersSigner && contractAddress),
@@ -85,17 +171,49 @@ export const useFHEEncryption = (params: {
     async (buildFn: (builder: RelayerEncryptedInput) => void): Promise<EncryptResult | undefined> => {
       if (!instance || !ethersSigner || !contractAddress) return undefined;
 
-      const userAddress = await ethersSigner.getAddress();
-      const input = instance.createEncryptedInput(contractAddress, userAddress) as RelayerEncryptedInput;
-      buildFn(input);
-      const enc = await input.encrypt();
-      return enc;
+      const start = Date.now();
+      setError(null);
+      try {
+        const userAddress = await ethersSigner.getAddress();
+        const input = instance.createEncryptedInput(contractAddress, userAddress) as RelayerEncryptedInput;
+        buildFn(input);
+        const enc = await input.encrypt();
+        log.info("encrypt.done", {
+          durationMs: Date.now() - start,
+          data: { contractAddress, handles: enc.handles.length },
+        });
+        return enc;
+      } catch (e) {
+        const err = toFhevmError(e, "encrypt");
+        log.error("encrypt.failed", { durationMs: Date.now() - start, code: err.code, error: err });
+        setError(err);
+        throw err;
+      }
     },
-    [instance, ethersSigner, contractAddress],
+    [instance, ethersSigner, contractAddress, log],
+  );
+
+  // Same as `encryptWith` with a builder validating each value against its type
+  const encryptTyped = useCallback(
+    (buildFn: (builder: FhevmEncryptedInputBuilder) => void): Promise<EncryptResult | undefined> =>
+      encryptWith(input => buildFn(new FhevmEncryptedInputBuilder(input))),
+    [encryptWith],
+  );
+
+  // Encrypts every `externalE*` parameter of `functionName` in one proof, returns the call arguments
+  const encryptParams = useCallback(
+    async (abi: readonly any[], functionName: string, values: AbiParamValues): Promise<any[] | undefined> => {
+      const enc = await encryptWith(builder => addEncryptedParamsFromAbi(builder, abi, functionName, values));
+      return enc ? buildParamsFromAbi(enc, abi, functionName, values) : undefined;
+    },
+    [encryptWith],
   );
 
   return {
     canEncrypt,
     encryptWith,
+    encryptTyped,
+    encryptParams,
+    error,
   } as const;
-};
\ No newline at end of file
+};
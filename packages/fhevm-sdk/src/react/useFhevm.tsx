@@ -1,6 +1,13 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { FhevmInstance } from "../fhevmTypes.js";
-import { createFhevmInstance } from "../internal/fhevm.js";
+import { acquireFhevmInstance, FhevmInstanceLease } from "../internal/FhevmInstancePool.js";
+import type { RelayerSDKLoaderOptions } from "../internal/RelayerSDKLoader.js";
+import type { FhevmLogger } from "../internal/logger.js";
+import type { PublicKeyStore } from "../storage/PublicKeyStore.js";
+import type { FhevmMockOptions, FhevmRelayerStatusType } from "../internal/fhevmTypes.js";
+import type { FhevmWorkerOptions } from "../internal/worker/FhevmWorker.js";
+import { FhevmError, toFhevmError } from "../internal/errors.js";
+import { FhevmRetryPolicy, fhevmRetryDelay } from "../internal/retry.js";
 import { ethers } from "ethers";
 
 function _assert(condition: boolean, message?: string): asserts condition {
@@ -12,28 +19,103 @@ function _assert(condition: boolean, message?: string): asserts condition {
 
 export type FhevmGoState = "idle" | "loading" | "ready" | "error";
 
+// Progress of a "loading" instance, "retrying" while waiting for the next attempt
+export type FhevmGoSubStatus = FhevmRelayerStatusType | "retrying";
+
+export type FhevmGoTimings = {
+  // Epoch milliseconds of the first attempt
+  startedAt: number;
+  // Milliseconds elapsed since `startedAt` when each sub-status was reached, and when ready
+  elapsedMs: Partial<Record<FhevmGoSubStatus | "ready", number>>;
+};
+
 export function useFhevm(parameters: {
   provider: string | ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   enabled?: boolean;
   initialMockChains?: Readonly<Record<number, string>>;
+  mock?: FhevmMockOptions;
+  loader?: Omit<RelayerSDKLoaderOptions, "trace" | "logger">;
+  logger?: FhevmLogger;
+  publicKeyStore?: PublicKeyStore;
+  // Opt-in: runs encryption, keypair generation and decryption in a Web Worker
+  worker?: boolean | FhevmWorkerOptions;
+  // Retries transient failures with exponential backoff, `false` makes the first failure terminal
+  retry?: FhevmRetryPolicy | false;
 }): {
   instance: FhevmInstance | undefined;
   refresh: () => void;
-  error: Error | undefined;
+  error: FhevmError | undefined;
   status: FhevmGoState;
+  subStatus: FhevmGoSubStatus | undefined;
+  timings: FhevmGoTimings | undefined;
+  // 1-based number of the current attempt
+  attempt: number;
+  // Epoch milliseconds of the next attempt while "retrying"
+  nextRetryAt: number | undefined;
 } {
-  const { provider, chainId, initialMockChains, enabled = true } = parameters;
+  const {
+    provider,
+    chainId,
+    initialMockChains,
+    mock,
+    loader,
+    logger,
+    publicKeyStore,
+    worker,
+    retry = {},
+    enabled = true,
+  } = parameters;
 
   const [instance, _setInstance] = useState<FhevmInstance | undefined>(undefined);
   const [status, _setStatus] = useState<FhevmGoState>("idle");
-  const [error, _setError] = useState<Error | undefined>(undefined);
+  const [error, _setError] = useState<FhevmError | undefined>(undefined);
+  const [subStatus, _setSubStatus] = useState<FhevmGoSubStatus | undefined>(undefined);
+  const [timings, _setTimings] = useState<FhevmGoTimings | undefined>(undefined);
+  const [attempt, _setAttempt] = useState<number>(0);
+  const [nextRetryAt, _setNextRetryAt] = useState<number | undefined>(undefined);
   const [_isRunning, _setIsRunning] = useState<boolean>(enabled);
   const [_providerChanged, _setProviderChanged] = useState<number>(0);
   const _abortControllerRef = useRef<AbortController | null>(null);
+  // Lease on the pooled instance, released on chain switch and unmount
+  const _leaseRef = useRef<FhevmInstanceLease | null>(null);
   const _providerRef = useRef<string | ethers.Eip1193Provider | undefined>(provider);
   const _chainIdRef = useRef<number | undefined>(chainId);
   const _mockChainsRef = useRef<Record<number, string> | undefined>(initialMockChains as any);
+  const _mockRef = useRef<FhevmMockOptions | undefined>(mock);
+  const _loaderRef = useRef<Omit<RelayerSDKLoaderOptions, "trace" | "logger"> | undefined>(loader);
+  const _loggerRef = useRef<FhevmLogger | undefined>(logger);
+  const _publicKeyStoreRef = useRef<PublicKeyStore | undefined>(publicKeyStore);
+  const _workerRef = useRef<boolean | FhevmWorkerOptions | undefined>(worker);
+  const _retryRef = useRef<FhevmRetryPolicy | false>(retry);
+
+  useEffect(() => {
+    _loggerRef.current = logger;
+  }, [logger]);
+
+  useEffect(() => {
+    _retryRef.current = retry;
+  }, [retry]);
+
+  const _resetProgress = useCallback(() => {
+    _setSubStatus(undefined);
+    _setTimings(undefined);
+    _setAttempt(0);
+    _setNextRetryAt(undefined);
+  }, []);
+
+  const _releaseLease = useCallback(() => {
+    _leaseRef.current?.release();
+    _leaseRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      _abortControllerRef.current?.abort();
+      _abortControllerRef.current = null;
+      _releaseLease();
+    };
+  }, [_releaseLease]);
 
   const refresh = useCallback(() => {
     if (_abortControllerRef.current) {
@@ -43,6 +125,7 @@ export function useFhevm(parameters: {
       _abortControllerRef.current.abort();
       _abortControllerRef.current = null;
     }
+    _releaseLease();
 
     _providerRef.current = provider;
     _chainIdRef.current = chainId;
@@ -50,12 +133,13 @@ export function useFhevm(parameters: {
     _setInstance(undefined);
     _setError(undefined);
     _setStatus("idle");
+    _resetProgress();
 
     if (provider !== undefined) {
       _setProviderChanged(prev => prev + 1);
     }
 
-  }, [provider, chainId]);
+  }, [provider, chainId, _releaseLease, _resetProgress]);
 
   useEffect(() => {
     refresh();
@@ -71,9 +155,11 @@ export function useFhevm(parameters: {
         _abortControllerRef.current.abort();
         _abortControllerRef.current = null;
       }
+      _releaseLease();
       _setInstance(undefined);
       _setError(undefined);
       _setStatus("idle");
+      _resetProgress();
       return;
     }
 
@@ -82,6 +168,7 @@ export function useFhevm(parameters: {
         _setInstance(undefined);
         _setError(undefined);
         _setStatus("idle");
+        _resetProgress();
         return;
       }
 
@@ -97,33 +184,84 @@ export function useFhevm(parameters: {
       const thisSignal = _abortControllerRef.current.signal;
       const thisProvider = _providerRef.current;
       const thisRpcUrlsByChainId = _mockChainsRef.current as any;
+      const startedAt = Date.now();
+
+      const reached = (sub: FhevmGoSubStatus | "ready") =>
+        _setTimings(prev => ({
+          startedAt,
+          elapsedMs: { ...prev?.elapsedMs, [sub]: Date.now() - startedAt },
+        }));
+
+      _setTimings({ startedAt, elapsedMs: {} });
 
-      createFhevmInstance({
-        signal: thisSignal,
-        provider: thisProvider as any,
-        mockChains: thisRpcUrlsByChainId as any,
-        onStatusChange: s => console.log(`[useFhevm] createFhevmInstance status changed: ${s}`),
-      })
-        .then(i => {
-          if (thisSignal.aborted) return;
-          _assert(thisProvider === _providerRef.current, "thisProvider === _providerRef.current");
-
-          _setInstance(i);
-          _setError(undefined);
-          _setStatus("ready");
+      const run = (thisAttempt: number) => {
+        _setAttempt(thisAttempt);
+        _setNextRetryAt(undefined);
+        _setSubStatus(undefined);
+
+        acquireFhevmInstance({
+          signal: thisSignal,
+          provider: thisProvider as any,
+          mockChains: thisRpcUrlsByChainId as any,
+          mock: _mockRef.current,
+          loader: _loaderRef.current,
+          logger: _loggerRef.current,
+          publicKeyStore: _publicKeyStoreRef.current,
+          worker: _workerRef.current,
+          onStatusChange: sub => {
+            if (thisSignal.aborted) return;
+            _setSubStatus(sub);
+            reached(sub);
+          },
         })
-        .catch(e => {
-          if (thisSignal.aborted) return;
+          .then(lease => {
+            if (thisSignal.aborted) {
+              lease.release();
+              return;
+            }
+            _assert(thisProvider === _providerRef.current, "thisProvider === _providerRef.current");
+
+            _releaseLease();
+            _leaseRef.current = lease;
+            reached("ready");
+            _setInstance(lease.instance);
+            _setError(undefined);
+            _setSubStatus(undefined);
+            _setStatus("ready");
+          })
+          .catch(e => {
+            if (thisSignal.aborted) return;
+
+            _assert(thisProvider === _providerRef.current, "thisProvider === _providerRef.current");
+
+            const err = toFhevmError(e, "init");
+            const policy = _retryRef.current;
+            const delay = policy === false ? undefined : fhevmRetryDelay(policy, err, thisAttempt);
+            if (delay !== undefined) {
+              // Transient failure, stays "loading" until the next attempt
+              _setSubStatus("retrying");
+              _setNextRetryAt(Date.now() + delay);
+              reached("retrying");
+              const timer = setTimeout(() => {
+                thisSignal.removeEventListener("abort", onAbort);
+                run(thisAttempt + 1);
+              }, delay);
+              const onAbort = () => clearTimeout(timer);
+              thisSignal.addEventListener("abort", onAbort, { once: true });
+              return;
+            }
 
-          _assert(thisProvider === _providerRef.current, "thisProvider === _providerRef.current");
+            _setInstance(undefined);
+            _setSubStatus(undefined);
+            _setError(err);
+            _setStatus("error");
+          });
+      };
 
-          _setInstance(undefined);
-          _setError(e as any);
-          _setStatus("error");
-        });
+      run(1);
     }
-  }, [_isRunning, _providerChanged]);
+  }, [_isRunning, _providerChanged, _releaseLease, _resetProgress]);
 
-  return { instance, refresh, error, status };
+  return { instance, refresh, error, status, subStatus, timings, attempt, nextRetryAt };
 }
 
@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { FhevmDecryptionSignatureInfo, FhevmDecryptionSignatureManager } from "../FhevmDecryptionSignatureManager.js";
+import { GenericStringStorage, isEnumerableStringStorage } from "../storage/GenericStringStorage.js";
+
+/**
+ * Lists the decryption signatures of `userAddress` stored in `storage`, and
+ * lets the user revoke them. `isSupported` is false when the storage cannot
+ * list its keys, the list then stays empty.
+ */
+export const useFhevmDecryptionSignatures = (params: {
+  storage: GenericStringStorage;
+  userAddress: string | undefined;
+}) => {
+  const { storage, userAddress } = params;
+
+  const manager = useMemo(
+    () => (isEnumerableStringStorage(storage) ? new FhevmDecryptionSignatureManager(storage) : undefined),
+    [storage],
+  );
+  const isSupported = manager !== undefined;
+
+  const [signatures, setSignatures] = useState<FhevmDecryptionSignatureInfo[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [version, setVersion] = useState<number>(0);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  useEffect(() => {
+    if (!manager || !userAddress) {
+      setSignatures([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    manager
+      .list({ userAddress })
+      .then(
+        list => {
+          if (cancelled) return;
+          setSignatures(list);
+          setError(null);
+        },
+        e => {
+          if (cancelled) return;
+          setError(e instanceof Error ? e : new Error(String(e)));
+        },
+      )
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [manager, userAddress, version]);
+
+  const remove = useCallback(
+    async (key: string) => {
+      if (!manager) return;
+      await manager.remove(key);
+      refresh();
+    },
+    [manager, refresh],
+  );
+
+  const clear = useCallback(async () => {
+    if (!manager || !userAddress) return 0;
+    const count = await manager.clear(userAddress);
+    refresh();
+    return count;
+  }, [manager, userAddress, refresh]);
+
+  return { signatures, isSupported, isLoading, error, refresh, remove, clear } as const;
+};
@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { FhevmInstance } from "../fhevmTypes.js";
+import {
+  FhevmPublicDecryptResult,
+  buildPublicDecryptCalldata,
+  publicDecryptHandles,
+} from "../internal/publicDecrypt.js";
+import { FhevmLogger } from "../internal/logger.js";
+import { FhevmError, toFhevmError } from "../internal/errors.js";
+
+/**
+ * Decrypts publicly decryptable handles (`FHE.makePubliclyDecryptable`), no
+ * wallet signature needed. `buildCalldata` encodes the cleartexts and KMS
+ * proof for the contract function that verifies them on-chain.
+ */
+export const usePublicDecrypt = (params: {
+  instance: FhevmInstance | undefined;
+  handles: readonly string[] | undefined;
+  logger?: FhevmLogger;
+}) => {
+  const { instance, handles, logger } = params;
+
+  const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [result, setResult] = useState<FhevmPublicDecryptResult | undefined>(undefined);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  const isDecryptingRef = useRef<boolean>(isDecrypting);
+  const lastHandlesKeyRef = useRef<string>("");
+
+  const handlesKey = useMemo(() => (handles ? handles.map(h => h.toLowerCase()).join(",") : ""), [handles]);
+
+  const canDecrypt = useMemo(() => {
+    return Boolean(instance && handles && handles.length > 0 && !isDecrypting);
+  }, [instance, handles, isDecrypting]);
+
+  const decrypt = useCallback(() => {
+    if (isDecryptingRef.current) return;
+    if (!instance || !handles || handles.length === 0) return;
+
+    const thisInstance = instance;
+    lastHandlesKeyRef.current = handlesKey;
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Call FHEVM publicDecrypt...");
+    setError(null);
+
+    const run = async () => {
+      const isStale = () => thisInstance !== instance || handlesKey !== lastHandlesKeyRef.current;
+      try {
+        const res = await publicDecryptHandles(thisInstance, handles, { logger });
+        if (isStale()) {
+          setMessage("Ignore FHEVM public decryption");
+          return;
+        }
+        setResult(res);
+        setMessage("FHEVM publicDecrypt completed!");
+      } catch (e) {
+        // Already logged by publicDecryptHandles
+        setError(toFhevmError(e, "decrypt"));
+        setMessage("FHEVM publicDecrypt failed");
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    };
+
+    run();
+  }, [instance, handles, handlesKey, logger]);
+
+  const buildCalldata = useCallback(
+    (abi: ethers.InterfaceAbi, functionName: string, args?: Record<string, unknown>) => {
+      if (!result) return undefined;
+      return buildPublicDecryptCalldata({ abi, functionName, result, args });
+    },
+    [result],
+  );
+
+  return {
+    canDecrypt,
+    decrypt,
+    isDecrypting,
+    message,
+    results: result?.clearValues ?? {},
+    abiEncodedClearValues: result?.abiEncodedClearValues,
+    decryptionProof: result?.decryptionProof,
+    buildCalldata,
+    error,
+    setMessage,
+    setError,
+  } as const;
+};
@@ -0,0 +1,212 @@
+import { openDB } from "idb";
+import { EnumerableStringStorage, GenericStringStorage, enumerableStringStorageKeys } from "./GenericStringStorage.js";
+
+// Payload written to the underlying storage
+type EncryptedEnvelope = {
+  fhevmEncrypted: 1;
+  iv: string;
+  // Present when the key is derived from a passphrase
+  salt?: string;
+  data: string;
+};
+
+type EncryptedStringStorageKeyProvider = {
+  // Returns the key used to encrypt a new value, and the salt to store with it
+  encryptionKey(): Promise<{ key: CryptoKey; salt?: Uint8Array<ArrayBuffer> }>;
+  decryptionKey(salt: Uint8Array<ArrayBuffer> | undefined): Promise<CryptoKey>;
+};
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+function _toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary);
+}
+
+function _fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function _isEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncryptedEnvelope).fhevmEncrypted === 1 &&
+    typeof (value as EncryptedEnvelope).iv === "string" &&
+    typeof (value as EncryptedEnvelope).data === "string"
+  );
+}
+
+function _generateAesKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Loads the non-extractable device key from IndexedDB, creating it on first
+ * use. Without IndexedDB the key only lives in memory.
+ */
+async function _loadDeviceKey(dbName: string, keyName: string): Promise<CryptoKey> {
+  if (typeof indexedDB === "undefined") {
+    return _generateAesKey();
+  }
+  const db = await openDB(dbName, 1, {
+    upgrade(db) {
+      db.createObjectStore("keys");
+    },
+  });
+  try {
+    const existing = (await db.get("keys", keyName)) as CryptoKey | undefined;
+    if (existing) {
+      return existing;
+    }
+    const key = await _generateAesKey();
+    // CryptoKeys are structured-cloneable, the key material never leaves WebCrypto
+    await db.put("keys", key, keyName);
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * `GenericStringStorage` wrapper encrypting values with AES-GCM before they
+ * reach `storage`. Each value is bound to its storage key, entries cannot be
+ * swapped. Values that cannot be decrypted (lost key, wrong passphrase,
+ * plaintext entries) read as missing, which makes signatures be signed again.
+ *
+ * Use `withDeviceKey` or `withPassphrase` to create one.
+ */
+export class EncryptedStringStorage implements EnumerableStringStorage {
+  #storage: GenericStringStorage;
+  #keys: EncryptedStringStorageKeyProvider;
+
+  private constructor(storage: GenericStringStorage, keys: EncryptedStringStorageKeyProvider) {
+    this.#storage = storage;
+    this.#keys = keys;
+  }
+
+  /**
+   * Encrypts with a random, non-extractable AES-GCM key kept in IndexedDB.
+   */
+  static withDeviceKey(
+    storage: GenericStringStorage,
+    options?: { dbName?: string; keyName?: string },
+  ): EncryptedStringStorage {
+    let keyPromise: Promise<CryptoKey> | undefined;
+    const getKey = () => {
+      if (!keyPromise) {
+        keyPromise = _loadDeviceKey(options?.dbName ?? "fhevm-keystore", options?.keyName ?? "signatures");
+        // Allow a retry if IndexedDB failed
+        keyPromise.catch(() => (keyPromise = undefined));
+      }
+      return keyPromise;
+    };
+    return new EncryptedStringStorage(storage, {
+      encryptionKey: async () => ({ key: await getKey() }),
+      decryptionKey: () => getKey(),
+    });
+  }
+
+  /**
+   * Encrypts with a key derived from `passphrase` (PBKDF2-HMAC-SHA256). The
+   * salt is stored alongside each value.
+   */
+  static withPassphrase(
+    storage: GenericStringStorage,
+    passphrase: string,
+    options?: { iterations?: number },
+  ): EncryptedStringStorage {
+    const iterations = options?.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+    // Derivation is slow by design, keys are cached per salt
+    const derived = new Map<string, Promise<CryptoKey>>();
+    let baseKey: Promise<CryptoKey> | undefined;
+
+    const deriveKey = (salt: Uint8Array<ArrayBuffer>) => {
+      const id = _toBase64(salt);
+      let key = derived.get(id);
+      if (!key) {
+        baseKey ??= crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+          "deriveKey",
+        ]);
+        key = baseKey.then(base =>
+          crypto.subtle.deriveKey(
+            { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+            base,
+            { name: "AES-GCM", length: 256 },
+            false,
+            ["encrypt", "decrypt"],
+          ),
+        );
+        derived.set(id, key);
+      }
+      return key;
+    };
+
+    // One salt per storage instance, values written by other instances keep theirs
+    let salt: Uint8Array<ArrayBuffer> | undefined;
+    return new EncryptedStringStorage(storage, {
+      encryptionKey: async () => {
+        salt ??= crypto.getRandomValues(new Uint8Array(16));
+        return { key: await deriveKey(salt), salt };
+      },
+      decryptionKey: async s => {
+        if (!s) {
+          throw new Error("Missing PBKDF2 salt");
+        }
+        return deriveKey(s);
+      },
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const stored = await this.#storage.getItem(key);
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+    try {
+      const envelope = JSON.parse(stored);
+      if (!_isEnvelope(envelope)) {
+        return null;
+      }
+      const cryptoKey = await this.#keys.decryptionKey(envelope.salt ? _fromBase64(envelope.salt) : undefined);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: _fromBase64(envelope.iv), additionalData: new TextEncoder().encode(key) },
+        cryptoKey,
+        _fromBase64(envelope.data),
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const { key: cryptoKey, salt } = await this.#keys.encryptionKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(key) },
+      cryptoKey,
+      new TextEncoder().encode(value),
+    );
+    const envelope: EncryptedEnvelope = {
+      fhevmEncrypted: 1,
+      iv: _toBase64(iv),
+      salt: salt ? _toBase64(salt) : undefined,
+      data: _toBase64(new Uint8Array(data)),
+    };
+    await this.#storage.setItem(key, JSON.stringify(envelope));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.#storage.removeItem(key);
+  }
+
+  // Keys are stored in clear
+  async keys(): Promise<string[]> {
+    return enumerableStringStorageKeys(this.#storage);
+  }
+}
@@ -0,0 +1,46 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { EnumerableStringStorage } from "./GenericStringStorage.js";
+
+interface GenericStringDB extends DBSchema {
+  strings: {
+    key: string;
+    value: string;
+  };
+}
+
+/**
+ * `GenericStringStorage` backed by an IndexedDB object store. Unlike Web
+ * Storage it is available to workers and is not limited to a few megabytes.
+ */
+export class GenericStringIndexedDBStorage implements EnumerableStringStorage {
+  #dbName: string;
+  #dbPromise: Promise<IDBPDatabase<GenericStringDB>> | undefined = undefined;
+
+  constructor(options?: { dbName?: string }) {
+    this.#dbName = options?.dbName ?? "fhevm-storage";
+  }
+
+  #getDB(): Promise<IDBPDatabase<GenericStringDB>> {
+    if (!this.#dbPromise) {
+      this.#dbPromise = openDB<GenericStringDB>(this.#dbName, 1, {
+        upgrade(db) {
+          db.createObjectStore("strings");
+        },
+      });
+    }
+    return this.#dbPromise;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return (await (await this.#getDB()).get("strings", key)) ?? null;
+  }
+  async setItem(key: string, value: string): Promise<void> {
+    await (await this.#getDB()).put("strings", value, key);
+  }
+  async removeItem(key: string): Promise<void> {
+    await (await this.#getDB()).delete("strings", key);
+  }
+  async keys(): Promise<string[]> {
+    return (await this.#getDB()).getAllKeys("strings");
+  }
+}
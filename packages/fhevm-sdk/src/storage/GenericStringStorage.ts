@@ -4,7 +4,27 @@ export interface GenericStringStorage {
   removeItem(key: string): void | Promise<void>;
 }
 
-export class GenericStringInMemoryStorage implements GenericStringStorage {
+/**
+ * Storage able to list its keys, required to inspect or clear the stored
+ * decryption signatures.
+ */
+export interface EnumerableStringStorage extends GenericStringStorage {
+  keys(): string[] | Promise<string[]>;
+}
+
+export function isEnumerableStringStorage(storage: GenericStringStorage): storage is EnumerableStringStorage {
+  return typeof (storage as Partial<EnumerableStringStorage>).keys === "function";
+}
+
+// Lists the keys of a wrapped storage, for storage decorators
+export async function enumerableStringStorageKeys(storage: GenericStringStorage): Promise<string[]> {
+  if (!isEnumerableStringStorage(storage)) {
+    throw new TypeError("The underlying storage cannot enumerate its keys");
+  }
+  return storage.keys();
+}
+
+export class GenericStringInMemoryStorage implements EnumerableStringStorage {
   #store = new Map<string, string>();
 
   getItem(key: string): string | Promise<string | null> | null {
@@ -16,5 +36,47 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   removeItem(key: string): void | Promise<void> {
     this.#store.delete(key);
   }
+  keys(): string[] {
+    return Array.from(this.#store.keys());
+  }
 }
 
+/**
+ * Prefixes every key with `namespace`, so that several chains or accounts
+ * share a backend without colliding.
+ */
+export class GenericStringNamespacedStorage implements EnumerableStringStorage {
+  #storage: GenericStringStorage;
+  #prefix: string;
+
+  constructor(storage: GenericStringStorage, namespace: string) {
+    this.#storage = storage;
+    this.#prefix = `${namespace}:`;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    return this.#storage.getItem(this.#prefix + key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    return this.#storage.setItem(this.#prefix + key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    return this.#storage.removeItem(this.#prefix + key);
+  }
+  async keys(): Promise<string[]> {
+    return (await enumerableStringStorageKeys(this.#storage))
+      .filter(key => key.startsWith(this.#prefix))
+      .map(key => key.slice(this.#prefix.length));
+  }
+}
+
+export function fhevmStorageNamespace(parameters: { prefix?: string; chainId?: number; account?: string }): string {
+  const parts = [parameters.prefix ?? "fhevm"];
+  if (parameters.chainId !== undefined) {
+    parts.push(String(parameters.chainId));
+  }
+  if (parameters.account !== undefined) {
+    parts.push(parameters.account.toLowerCase());
+  }
+  return parts.join(":");
+}
@@ -0,0 +1,44 @@
+import { EnumerableStringStorage } from "./GenericStringStorage.js";
+
+/**
+ * `GenericStringStorage` backed by a Web Storage area (`localStorage` or
+ * `sessionStorage`). Quota errors are not swallowed.
+ */
+export class GenericStringWebStorage implements EnumerableStringStorage {
+  #storage: Storage;
+
+  constructor(storage: Storage) {
+    this.#storage = storage;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    return this.#storage.getItem(key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    this.#storage.setItem(key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    this.#storage.removeItem(key);
+  }
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.#storage.length; ++i) {
+      keys.push(this.#storage.key(i) as string);
+    }
+    return keys;
+  }
+}
+
+// Survives page reloads and browser restarts
+export class GenericStringLocalStorage extends GenericStringWebStorage {
+  constructor() {
+    super(window.localStorage);
+  }
+}
+
+// Cleared when the tab is closed
+export class GenericStringSessionStorage extends GenericStringWebStorage {
+  constructor() {
+    super(window.sessionStorage);
+  }
+}
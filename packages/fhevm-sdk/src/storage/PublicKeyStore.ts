@@ -0,0 +1,146 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+
+// Metadata attached to every public key cache entry
+export type FhevmPublicKeyCacheMetadata = {
+  acl: `0x${string}`;
+  // Unix timestamp in milliseconds
+  fetchedAt: number;
+  // Relayer SDK version that produced the entry
+  sdkVersion: string;
+};
+
+export type FhevmPublicKeyRecord = FhevmPublicKeyCacheMetadata & {
+  publicKeyId: string;
+  publicKey: Uint8Array;
+};
+
+export type FhevmPublicParamsRecord = FhevmPublicKeyCacheMetadata & {
+  bits: number;
+  publicParamsId: string;
+  publicParams: Uint8Array;
+};
+
+/**
+ * Backend of the public key cache. Records are keyed by ACL address, and by
+ * size in bits for public params.
+ */
+export interface PublicKeyStore {
+  getPublicKey(aclAddress: `0x${string}`): Promise<FhevmPublicKeyRecord | undefined>;
+  setPublicKey(record: FhevmPublicKeyRecord): Promise<void>;
+  removePublicKey(aclAddress: `0x${string}`): Promise<void>;
+  getPublicParams(aclAddress: `0x${string}`): Promise<FhevmPublicParamsRecord[]>;
+  setPublicParams(record: FhevmPublicParamsRecord): Promise<void>;
+  removePublicParams(aclAddress: `0x${string}`, bits: number): Promise<void>;
+  // ACL addresses having at least one cached record
+  aclAddresses(): Promise<`0x${string}`[]>;
+}
+
+export class PublicKeyInMemoryStore implements PublicKeyStore {
+  #publicKeys = new Map<string, FhevmPublicKeyRecord>();
+  #publicParams = new Map<string, Map<number, FhevmPublicParamsRecord>>();
+
+  async getPublicKey(aclAddress: `0x${string}`) {
+    return this.#publicKeys.get(aclAddress);
+  }
+  async setPublicKey(record: FhevmPublicKeyRecord) {
+    this.#publicKeys.set(record.acl, record);
+  }
+  async removePublicKey(aclAddress: `0x${string}`) {
+    this.#publicKeys.delete(aclAddress);
+  }
+  async getPublicParams(aclAddress: `0x${string}`) {
+    return Array.from(this.#publicParams.get(aclAddress)?.values() ?? []);
+  }
+  async setPublicParams(record: FhevmPublicParamsRecord) {
+    let byBits = this.#publicParams.get(record.acl);
+    if (!byBits) {
+      byBits = new Map();
+      this.#publicParams.set(record.acl, byBits);
+    }
+    byBits.set(record.bits, record);
+  }
+  async removePublicParams(aclAddress: `0x${string}`, bits: number) {
+    const byBits = this.#publicParams.get(aclAddress);
+    byBits?.delete(bits);
+    if (byBits?.size === 0) {
+      this.#publicParams.delete(aclAddress);
+    }
+  }
+  async aclAddresses() {
+    return Array.from(new Set([...this.#publicKeys.keys(), ...this.#publicParams.keys()])) as `0x${string}`[];
+  }
+}
+
+interface PublicParamsDB extends DBSchema {
+  publicKeys: {
+    key: string;
+    value: FhevmPublicKeyRecord;
+  };
+  publicParams: {
+    key: [string, number];
+    value: FhevmPublicParamsRecord;
+    indexes: { "by-acl": string };
+  };
+}
+
+// v1: `publicKeyStore` and `paramsStore` (2048 only), no metadata
+// v2: `publicKeys` and `publicParams` keyed by [acl, bits], with metadata
+const DB_VERSION = 2;
+
+export class PublicKeyIndexedDBStore implements PublicKeyStore {
+  #dbName: string;
+  #dbPromise: Promise<IDBPDatabase<PublicParamsDB>> | undefined = undefined;
+
+  constructor(options?: { dbName?: string }) {
+    this.#dbName = options?.dbName ?? "fhevm";
+  }
+
+  #getDB(): Promise<IDBPDatabase<PublicParamsDB>> {
+    if (!this.#dbPromise) {
+      this.#dbPromise = openDB<PublicParamsDB>(this.#dbName, DB_VERSION, {
+        upgrade(db, oldVersion) {
+          if (oldVersion < 2) {
+            // v1 entries carry no key metadata, they are dropped and fetched again
+            for (const name of ["publicKeyStore", "paramsStore"]) {
+              if (db.objectStoreNames.contains(name as never)) {
+                db.deleteObjectStore(name as never);
+              }
+            }
+          }
+          if (!db.objectStoreNames.contains("publicKeys")) {
+            db.createObjectStore("publicKeys", { keyPath: "acl" });
+          }
+          if (!db.objectStoreNames.contains("publicParams")) {
+            const store = db.createObjectStore("publicParams", { keyPath: ["acl", "bits"] });
+            store.createIndex("by-acl", "acl");
+          }
+        },
+      });
+    }
+    return this.#dbPromise;
+  }
+
+  async getPublicKey(aclAddress: `0x${string}`) {
+    return (await this.#getDB()).get("publicKeys", aclAddress);
+  }
+  async setPublicKey(record: FhevmPublicKeyRecord) {
+    await (await this.#getDB()).put("publicKeys", record);
+  }
+  async removePublicKey(aclAddress: `0x${string}`) {
+    await (await this.#getDB()).delete("publicKeys", aclAddress);
+  }
+  async getPublicParams(aclAddress: `0x${string}`) {
+    return (await this.#getDB()).getAllFromIndex("publicParams", "by-acl", aclAddress);
+  }
+  async setPublicParams(record: FhevmPublicParamsRecord) {
+    await (await this.#getDB()).put("publicParams", record);
+  }
+  async removePublicParams(aclAddress: `0x${string}`, bits: number) {
+    await (await this.#getDB()).delete("publicParams", [aclAddress, bits]);
+  }
+  async aclAddresses() {
+    const db = await this.#getDB();
+    const keys = [...(await db.getAllKeys("publicKeys")), ...(await db.getAllKeys("publicParams")).map(([acl]) => acl)];
+    return Array.from(new Set(keys)) as `0x${string}`[];
+  }
+}
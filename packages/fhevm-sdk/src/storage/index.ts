@@ -1,2 +1,5 @@
-export * from "./GenericStringStorage";
-
+export * from "./GenericStringStorage.js";
+export * from "./GenericStringWebStorage.js";
+export * from "./GenericStringIndexedDBStorage.js";
+export * from "./EncryptedStringStorage.js";
+export * from "./PublicKeyStore.js";
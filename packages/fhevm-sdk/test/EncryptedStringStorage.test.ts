@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { EncryptedStringStorage } from "../src/storage/EncryptedStringStorage";
+import { GenericStringInMemoryStorage } from "../src/storage/GenericStringStorage";
+
+const SECRET = JSON.stringify({ privateKey: "0xsecret" });
+
+describe("EncryptedStringStorage", () => {
+  it("encrypts values with the IndexedDB device key", async () => {
+    const backend = new GenericStringInMemoryStorage();
+    const storage = EncryptedStringStorage.withDeviceKey(backend, { dbName: "fhevm-keystore-test" });
+    await storage.setItem("k", SECRET);
+
+    expect(backend.getItem("k")).not.toContain("0xsecret");
+    expect(await storage.getItem("k")).toBe(SECRET);
+
+    // A new wrapper reloads the same key from IndexedDB
+    const reopened = EncryptedStringStorage.withDeviceKey(backend, { dbName: "fhevm-keystore-test" });
+    expect(await reopened.getItem("k")).toBe(SECRET);
+  });
+
+  it("derives the key from a passphrase", async () => {
+    const backend = new GenericStringInMemoryStorage();
+    const storage = EncryptedStringStorage.withPassphrase(backend, "correct horse", { iterations: 1000 });
+    await storage.setItem("k", SECRET);
+
+    expect(
+      await EncryptedStringStorage.withPassphrase(backend, "correct horse", { iterations: 1000 }).getItem("k"),
+    ).toBe(SECRET);
+    expect(await EncryptedStringStorage.withPassphrase(backend, "wrong", { iterations: 1000 }).getItem("k")).toBeNull();
+  });
+
+  it("rejects plaintext and swapped entries", async () => {
+    const backend = new GenericStringInMemoryStorage();
+    const storage = EncryptedStringStorage.withPassphrase(backend, "pw", { iterations: 1000 });
+    backend.setItem("plain", SECRET);
+    expect(await storage.getItem("plain")).toBeNull();
+
+    await storage.setItem("a", SECRET);
+    backend.setItem("b", backend.getItem("a") as string);
+    expect(await storage.getItem("b")).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { FhevmDecryptedValueCache } from "../src/FhevmDecryptedValueCache";
+import { GenericStringInMemoryStorage } from "../src/storage/GenericStringStorage";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const H1 = `0x${"ab".repeat(32)}`;
+const H2 = `0x${"cd".repeat(32)}`;
+const H3 = `0x${"ef".repeat(32)}`;
+
+describe("FhevmDecryptedValueCache", () => {
+  it("round-trips bigints, booleans and strings across instances", async () => {
+    const storage = new GenericStringInMemoryStorage();
+    await new FhevmDecryptedValueCache(storage, { chainId: 1, userAddress: ALICE }).setMany({
+      [H1]: 2n ** 200n,
+      [H2]: false,
+      [H3]: "0x1234",
+    });
+
+    const cache = new FhevmDecryptedValueCache(storage, { chainId: 1, userAddress: ALICE });
+    expect(await cache.getMany([H1, H2, H3.toUpperCase()])).toEqual({
+      [H1]: 2n ** 200n,
+      [H2]: false,
+      [H3.toUpperCase()]: "0x1234",
+    });
+  });
+
+  it("scopes values per user and chain", async () => {
+    const storage = new GenericStringInMemoryStorage();
+    const alice = new FhevmDecryptedValueCache(storage, { chainId: 1, userAddress: ALICE });
+    await alice.set(H1, 7n);
+
+    expect(await new FhevmDecryptedValueCache(storage, { chainId: 1, userAddress: BOB }).get(H1)).toBeUndefined();
+    expect(await new FhevmDecryptedValueCache(storage, { chainId: 2, userAddress: ALICE }).get(H1)).toBeUndefined();
+
+    await storage.setItem("other", "value");
+    expect(await alice.clear()).toBe(1);
+    expect(await alice.get(H1)).toBeUndefined();
+    expect(await storage.getItem("other")).toBe("value");
+  });
+});
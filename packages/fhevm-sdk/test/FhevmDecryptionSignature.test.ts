@@ -1,10 +1,207 @@
-import { describe, it, expect } from "vitest";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { ethers } from "ethers";
 import { FhevmDecryptionSignature } from "../src/FhevmDecryptionSignature";
+import {
+  GenericStringInMemoryStorage,
+  GenericStringNamespacedStorage,
+  GenericStringStorage,
+} from "../src/storage/GenericStringStorage";
+import type { FhevmInstance } from "../src/fhevmTypes";
+
+const CONTRACT = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+
+let keypairCount = 0;
+
+// Minimal instance producing EIP-712 payloads shaped like the relayer SDK ones
+const instance = {
+  generateKeypair: () => ({ publicKey: ethers.toBeHex(++keypairCount, 32), privateKey: "0xpriv" }),
+  createEIP712: (
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: number,
+    durationDays: number,
+    delegatedAccount?: string,
+  ) => {
+    const primaryType = delegatedAccount ? "DelegatedUserDecryptRequestVerification" : "UserDecryptRequestVerification";
+    const fields = [
+      { name: "publicKey", type: "bytes" },
+      { name: "contractAddresses", type: "address[]" },
+      { name: "startTimestamp", type: "uint256" },
+      { name: "durationDays", type: "uint256" },
+    ];
+    return {
+      domain: { name: "Decryption", version: "1", chainId: 11155111, verifyingContract: CONTRACT },
+      primaryType,
+      types: { [primaryType]: delegatedAccount ? [...fields, { name: "delegatedAccount", type: "address" }] : fields },
+      message: {
+        publicKey: publicKey === ethers.ZeroAddress ? "0x" : publicKey,
+        contractAddresses,
+        startTimestamp: String(startTimestamp),
+        durationDays: String(durationDays),
+        ...(delegatedAccount ? { delegatedAccount } : {}),
+      },
+    };
+  },
+} as unknown as FhevmInstance;
+
+// Relayer SDK ignoring the `delegatedAccount` argument of `createEIP712`
+const legacyInstance = {
+  createEIP712: (publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number) =>
+    (instance as any).createEIP712(publicKey, contractAddresses, startTimestamp, durationDays),
+} as unknown as FhevmInstance;
+
+// Same relayer SDK deployed on a local chain
+const localInstance = {
+  generateKeypair: (instance as any).generateKeypair,
+  createEIP712: (...args: unknown[]) => {
+    const eip712 = (instance as any).createEIP712(...args);
+    return { ...eip712, domain: { ...eip712.domain, chainId: 31337 } };
+  },
+} as unknown as FhevmInstance;
+
+const DELEGATE = new ethers.Wallet(ethers.id("fhevm-test-delegate")).address as `0x${string}`;
+
+function createSigner() {
+  const wallet = new ethers.Wallet(ethers.id("fhevm-test-signer"));
+  const signTypedData = vi.spyOn(wallet, "signTypedData");
+  return { signer: wallet as unknown as ethers.JsonRpcSigner, signTypedData };
+}
 
 describe("FhevmDecryptionSignature", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it("checkIs guards shape", () => {
     // @ts-expect-error invalid type
     expect(FhevmDecryptionSignature.checkIs({})).toBe(false);
   });
-});
 
+  it("signs with a configurable validity window", async () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    const { signer } = createSigner();
+    const sig = await FhevmDecryptionSignature.new(instance, [CONTRACT], "0x01", "0xpriv", signer, {
+      durationDays: 7,
+    });
+    expect(sig.durationDays).toBe(7);
+    expect(sig.expiresAt).toBe(sig.startTimestamp + 7 * 86400);
+    expect(sig.remainingSeconds).toBe(7 * 86400);
+
+    vi.advanceTimersByTime(6.5 * 86400 * 1000);
+    expect(sig.isExpiringSoon(86400)).toBe(true);
+    expect(sig.isValid()).toBe(true);
+
+    await expect(
+      FhevmDecryptionSignature.new(instance, [CONTRACT], "0x01", "0xpriv", signer, { durationDays: 400 }),
+    ).rejects.toMatchObject({ code: "FHEVM_INVALID_SIGNATURE_DURATION" });
+  });
+
+  it("renews a stored signature ahead of its expiry", async () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    const { signer, signTypedData } = createSigner();
+    const storage = new GenericStringInMemoryStorage();
+    const options = { durationDays: 2, renewBeforeSeconds: 86400 };
+
+    const first = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage, undefined, options);
+    const cached = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage, undefined, options);
+    expect(cached.equals(first.toJSON())).toBe(true);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1.5 * 86400 * 1000);
+    const renewed = await FhevmDecryptionSignature.loadOrSign(
+      instance,
+      [CONTRACT],
+      signer,
+      storage,
+      undefined,
+      options,
+    );
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+    expect(renewed.expiresAt).toBeGreaterThan(first.expiresAt);
+  });
+
+  it("lets a delegate load a delegation signed by the delegator", async () => {
+    const { signer } = createSigner();
+    const delegation = await FhevmDecryptionSignature.signDelegation(instance, {
+      contractAddresses: [CONTRACT],
+      publicKey: "0x01",
+      delegatedAccount: DELEGATE,
+      signer,
+      durationDays: 30,
+    });
+    expect(delegation).not.toHaveProperty("privateKey");
+    expect(delegation.eip712.primaryType).toBe("DelegatedUserDecryptRequestVerification");
+
+    const storage = new GenericStringInMemoryStorage();
+    const sig = FhevmDecryptionSignature.fromDelegation(JSON.parse(JSON.stringify(delegation)), "0xpriv");
+    await sig.saveToGenericStringStorage(storage, instance, false);
+
+    const userAddress = await signer.getAddress();
+    const load = (delegatedAccount?: string) =>
+      FhevmDecryptionSignature.loadFromGenericStringStorage(storage, instance, [CONTRACT], userAddress, undefined, {
+        delegatedAccount,
+      });
+    expect((await load(DELEGATE))?.delegatedAccount).toBe(DELEGATE);
+    expect(await load()).toBeNull();
+
+    expect(sig.userAddress).toBe(userAddress);
+  });
+
+  it("reports relayer SDKs without delegated signatures", async () => {
+    const { signer } = createSigner();
+    await expect(
+      FhevmDecryptionSignature.signDelegation(legacyInstance, {
+        contractAddresses: [CONTRACT],
+        publicKey: "0x01",
+        delegatedAccount: DELEGATE,
+        signer,
+      }),
+    ).rejects.toMatchObject({ code: "DELEGATED_DECRYPT_UNSUPPORTED" });
+  });
+
+  it("reuses a signature covering a superset of the requested contracts", async () => {
+    const { signer, signTypedData } = createSigner();
+    const storage = new GenericStringInMemoryStorage();
+    const other = "0x901F8942346f7AB3a01F6D7613119Bca447Bb030";
+
+    const first = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage, undefined, {
+      preSignContractAddresses: [other, CONTRACT.toLowerCase()],
+    });
+    expect(first.contractAddresses).toEqual([CONTRACT, other]);
+
+    const subset = await FhevmDecryptionSignature.loadOrSign(instance, [other], signer, storage);
+    expect(subset.equals(first.toJSON())).toBe(true);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    const third = "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC";
+    await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT, third], signer, storage);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it("only reuses signatures of the same EIP-712 domain", async () => {
+    const { signer, signTypedData } = createSigner();
+    const storage = new GenericStringInMemoryStorage();
+    const other = "0x901F8942346f7AB3a01F6D7613119Bca447Bb030";
+
+    await FhevmDecryptionSignature.loadOrSign(localInstance, [CONTRACT, other], signer, storage);
+    const sig = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+    expect(sig.toJSON().eip712.domain.chainId).toBe(11155111);
+  });
+
+  it("finds the exact signature when the wrapped storage cannot list its keys", async () => {
+    const { signer, signTypedData } = createSigner();
+    const inner = new GenericStringInMemoryStorage();
+    const opaque: GenericStringStorage = {
+      getItem: key => inner.getItem(key),
+      setItem: (key, value) => inner.setItem(key, value),
+      removeItem: key => inner.removeItem(key),
+    };
+    const storage = new GenericStringNamespacedStorage(opaque, "fhevm");
+
+    const first = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage);
+    const second = await FhevmDecryptionSignature.loadOrSign(instance, [CONTRACT], signer, storage);
+    expect(second.equals(first.toJSON())).toBe(true);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+});
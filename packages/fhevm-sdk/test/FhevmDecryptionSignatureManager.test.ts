@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { FhevmDecryptionSignatureManager } from "../src/FhevmDecryptionSignatureManager";
+import { GenericStringInMemoryStorage } from "../src/storage/GenericStringStorage";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const C1 = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+const C2 = "0x901F8942346f7AB3a01F6D7613119Bca447Bb030";
+
+function storedSignature(userAddress: string, contractAddresses: string[], startTimestamp: number) {
+  return JSON.stringify({
+    publicKey: "0xpub",
+    privateKey: "0xpriv",
+    signature: "0xsig",
+    startTimestamp,
+    durationDays: 1,
+    userAddress,
+    contractAddresses,
+    eip712: { domain: {}, primaryType: "UserDecryptRequestVerification", message: {}, types: {} },
+  });
+}
+
+describe("FhevmDecryptionSignatureManager", () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  function createStorage() {
+    const storage = new GenericStringInMemoryStorage();
+    storage.setItem(`${ALICE}:0x01`, storedSignature(ALICE, [C1], now));
+    storage.setItem(`${ALICE}:0x02`, storedSignature(ALICE, [C1, C2], now - 2 * 86400));
+    storage.setItem(`${BOB}:0x03`, storedSignature(BOB, [C1], now));
+    storage.setItem("unrelated", "{}");
+    return storage;
+  }
+
+  it("lists signatures per user and contract set without the private key", async () => {
+    const manager = new FhevmDecryptionSignatureManager(createStorage());
+    const list = await manager.list({ userAddress: ALICE });
+    expect(list.map(s => s.key)).toEqual([`${ALICE}:0x02`, `${ALICE}:0x01`]);
+    expect(list[0]).toMatchObject({ isValid: false, remainingSeconds: 0 });
+    expect(list[1]).toMatchObject({ isValid: true, expiresAt: now + 86400 });
+    expect(list[1]).not.toHaveProperty("privateKey");
+
+    expect(await manager.list({ contractAddresses: [C2.toLowerCase(), C1] })).toHaveLength(1);
+    expect(await manager.list()).toHaveLength(3);
+  });
+
+  it("deletes entries and clears everything of an address", async () => {
+    const storage = createStorage();
+    const manager = new FhevmDecryptionSignatureManager(storage);
+    expect(await manager.removeExpired()).toBe(1);
+    expect(await manager.clear(ALICE.toUpperCase().replace("0X", "0x"))).toBe(1);
+    expect(storage.keys()).toEqual([`${BOB}:0x03`, "unrelated"]);
+
+    await manager.remove(`${BOB}:0x03`);
+    expect(await manager.get(`${BOB}:0x03`)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  acquireFhevmInstance,
+  disposeFhevmInstances,
+  getFhevmInstancePoolEntries,
+} from "../src/internal/FhevmInstancePool";
+import { FhevmLogEntry } from "../src/internal/logger";
+import { PublicKeyInMemoryStore } from "../src/storage/PublicKeyStore";
+
+const createFhevmInstance = vi.fn();
+
+vi.mock("../src/internal/fhevm", () => ({
+  createFhevmInstance: (parameters: unknown, resolved: unknown) => createFhevmInstance(parameters, resolved),
+}));
+
+vi.mock("../src/internal/resolve", () => ({
+  resolve: async (provider: string) => ({ isMock: false, chainId: provider === "sepolia" ? 11155111 : 1 }),
+}));
+
+function parameters(provider: string) {
+  return { provider, signal: new AbortController().signal };
+}
+
+describe("FhevmInstancePool", () => {
+  afterEach(() => {
+    disposeFhevmInstances();
+    createFhevmInstance.mockReset();
+  });
+
+  it("deduplicates concurrent creations and reference counts consumers", async () => {
+    const instance = {};
+    let signal: AbortSignal | undefined;
+    createFhevmInstance.mockImplementation(async (p: { signal: AbortSignal }) => {
+      signal = p.signal;
+      return instance;
+    });
+
+    const [a, b] = await Promise.all([
+      acquireFhevmInstance(parameters("sepolia")),
+      acquireFhevmInstance(parameters("sepolia")),
+    ]);
+    expect(createFhevmInstance).toHaveBeenCalledTimes(1);
+    // The chain resolved by the pool is not resolved again
+    expect(createFhevmInstance).toHaveBeenCalledWith(expect.anything(), { isMock: false, chainId: 11155111 });
+    expect(a.instance).toBe(instance);
+    expect(b.instance).toBe(instance);
+    expect(getFhevmInstancePoolEntries()).toEqual([
+      expect.objectContaining({ chainId: 11155111, refCount: 2, ready: true }),
+    ]);
+
+    a.release();
+    a.release();
+    expect(getFhevmInstancePoolEntries()[0].refCount).toBe(1);
+    b.release();
+    expect(getFhevmInstancePoolEntries()).toHaveLength(0);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("does not cache failed creations", async () => {
+    createFhevmInstance.mockRejectedValueOnce(new Error("boom"));
+    await expect(acquireFhevmInstance(parameters("sepolia"))).rejects.toThrow("boom");
+    expect(getFhevmInstancePoolEntries()).toHaveLength(0);
+
+    createFhevmInstance.mockResolvedValueOnce({});
+    const lease = await acquireFhevmInstance(parameters("sepolia"));
+    expect(createFhevmInstance).toHaveBeenCalledTimes(2);
+    lease.release();
+  });
+
+  it("lets a consumer stop waiting without cancelling the shared creation", async () => {
+    let resolveInstance: (i: object) => void = () => {};
+    createFhevmInstance.mockImplementation(() => new Promise(r => (resolveInstance = r)));
+
+    const controller = new AbortController();
+    const first = acquireFhevmInstance({ provider: "sepolia", signal: controller.signal });
+    const second = acquireFhevmInstance(parameters("sepolia"));
+    await vi.waitFor(() => expect(createFhevmInstance).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(first).rejects.toMatchObject({ code: "ABORTED" });
+
+    resolveInstance({});
+    const lease = await second;
+    expect(getFhevmInstancePoolEntries()[0].refCount).toBe(1);
+    lease.release();
+  });
+
+  it("warns when a later consumer passes options the shared instance ignores", async () => {
+    createFhevmInstance.mockResolvedValue({});
+    const entries: FhevmLogEntry[] = [];
+    const logger = { log: (e: FhevmLogEntry) => entries.push(e) };
+    const publicKeyStore = new PublicKeyInMemoryStore();
+
+    const a = await acquireFhevmInstance({ ...parameters("sepolia"), logger, publicKeyStore });
+    const b = await acquireFhevmInstance({ ...parameters("sepolia"), logger, publicKeyStore });
+    expect(entries.filter(e => e.event === "pool.options-ignored")).toHaveLength(0);
+
+    const c = await acquireFhevmInstance({
+      ...parameters("sepolia"),
+      logger,
+      publicKeyStore: new PublicKeyInMemoryStore(),
+      mock: { metadata: {} },
+    });
+    expect(createFhevmInstance).toHaveBeenCalledTimes(1);
+    expect(entries.filter(e => e.event === "pool.options-ignored")).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        data: expect.objectContaining({ options: ["publicKeyStore", "mock"] }),
+      }),
+    ]);
+
+    a.release();
+    b.release();
+    c.release();
+  });
+});
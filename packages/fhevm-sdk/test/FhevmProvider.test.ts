@@ -0,0 +1,86 @@
+import { afterEach, beforeAll, describe, it, expect, vi } from "vitest";
+import { act, createElement, ReactNode } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { FhevmProvider, useFhevmContext, useFhevmInstance } from "../src/react/FhevmProvider";
+import { acquireFhevmInstance } from "../src/internal/FhevmInstancePool";
+import type { FhevmInstance } from "../src/fhevmTypes";
+
+const { instance, release } = vi.hoisted(() => ({
+  instance: { createEIP712: () => "eip712" },
+  release: vi.fn(),
+}));
+
+vi.mock("../src/internal/FhevmInstancePool", () => ({
+  acquireFhevmInstance: vi.fn(async () => ({ key: "31337:0xacl", chainId: 31337, instance, release })),
+}));
+
+const mockChains = { 31337: "http://localhost:8545" };
+
+type Seen = { context: ReturnType<typeof useFhevmContext>; instance: FhevmInstance | undefined };
+
+// Records what the hooks return on every render
+function Probe({ seen }: { seen: Seen[] }) {
+  seen.push({ context: useFhevmContext(), instance: useFhevmInstance() });
+  return null;
+}
+
+let root: Root | undefined;
+
+async function render(element: ReactNode) {
+  root = createRoot(document.createElement("div"));
+  await act(async () => root!.render(element));
+}
+
+beforeAll(() => {
+  (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(async () => {
+  await act(async () => root?.unmount());
+  root = undefined;
+  vi.clearAllMocks();
+});
+
+describe("FhevmProvider", () => {
+  it("creates one instance for the chain and shares it with every descendant", async () => {
+    const first: Seen[] = [];
+    const second: Seen[] = [];
+    await render(
+      createElement(
+        FhevmProvider,
+        { provider: "http://localhost:8545", chainId: 31337, initialMockChains: mockChains },
+        createElement(Probe, { seen: first }),
+        createElement(Probe, { seen: second }),
+      ),
+    );
+
+    // Mounting may acquire more than once, a single lease is held
+    const acquired = vi.mocked(acquireFhevmInstance).mock.calls.length;
+    expect(release).toHaveBeenCalledTimes(acquired - 1);
+    const last = first[first.length - 1];
+    expect(last.instance).toBe(instance);
+    expect(last.context).toMatchObject({ status: "ready", chainId: 31337, initialMockChains: mockChains });
+    expect(second[second.length - 1].context).toBe(last.context);
+
+    await act(async () => root!.unmount());
+    root = undefined;
+    expect(release).toHaveBeenCalledTimes(acquired);
+  });
+
+  it("stays idle without a provider", async () => {
+    const seen: Seen[] = [];
+    await render(
+      createElement(FhevmProvider, { provider: undefined, chainId: undefined }, createElement(Probe, { seen })),
+    );
+
+    expect(acquireFhevmInstance).not.toHaveBeenCalled();
+    expect(seen[seen.length - 1].context.status).toBe("idle");
+    expect(seen[seen.length - 1].instance).toBeUndefined();
+  });
+
+  it("throws when the hooks are used outside a FhevmProvider", async () => {
+    await expect(render(createElement(Probe, { seen: [] }))).rejects.toThrowError(
+      "useFhevmContext must be used within a FhevmProvider",
+    );
+  });
+});
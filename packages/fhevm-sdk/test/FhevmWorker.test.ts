@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createFhevmWorkerInstance } from "../src/internal/worker/FhevmWorker";
+import { fhevmWorkerMain } from "../src/internal/worker/fhevmWorkerMain";
+import type { FhevmInstance, FhevmInstanceConfig } from "../src/fhevmTypes";
+
+const SDK_SCRIPT = "self.relayerSDK = {};";
+
+// Runs `fhevmWorkerMain` in-process, with a fake relayer SDK, behind a Worker-like object
+function createInProcessWorker(relayerSDK: unknown, importScripts = vi.fn()) {
+  const scope: Record<string, any> = { relayerSDK, importScripts };
+  const worker = {
+    onmessage: undefined as ((event: { data: unknown }) => void) | undefined,
+    onerror: undefined,
+    postMessage: (data: unknown) => setTimeout(() => scope.onmessage({ data })),
+    terminate: vi.fn(),
+  };
+  scope.postMessage = (data: unknown) => setTimeout(() => worker.onmessage?.({ data }));
+  fhevmWorkerMain(scope);
+  return worker as unknown as Worker;
+}
+
+function createFakeSDK() {
+  const encrypt = vi.fn(async () => ({ handles: [new Uint8Array([1, 2])], inputProof: new Uint8Array([3]) }));
+  const added: [string, unknown][] = [];
+  const sdk = {
+    initSDK: vi.fn(async () => true),
+    createInstance: vi.fn(async (config: { network: { request: (a: unknown) => Promise<unknown> } }) => ({
+      createEncryptedInput: () => {
+        const input: Record<string, unknown> = { encrypt };
+        for (const m of ["addBool", "add8", "add64", "addAddress"]) {
+          input[m] = (v: unknown) => added.push([m, v]);
+        }
+        return input;
+      },
+      generateKeypair: () => ({ publicKey: "0xpub", privateKey: "0xpriv" }),
+      userDecrypt: async () => ({ "0xh": 42n }),
+      publicDecrypt: async () => ({ chainId: await config.network.request({ method: "eth_chainId" }) }),
+    })),
+  };
+  return { sdk, added, encrypt };
+}
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(SDK_SCRIPT)),
+  );
+  // jsdom has no blob URLs
+  Object.assign(URL, { createObjectURL: vi.fn(() => "blob:sdk"), revokeObjectURL: vi.fn() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  delete (URL as any).createObjectURL;
+  delete (URL as any).revokeObjectURL;
+});
+
+const mainInstance = {
+  getPublicKey: () => ({ publicKeyId: "pk-id", publicKey: new Uint8Array([9]) }),
+  getPublicParams: () => ({ publicParamsId: "pp-id", publicParams: new Uint8Array([8]) }),
+  createEIP712: () => "eip712",
+} as unknown as FhevmInstance;
+
+describe("createFhevmWorkerInstance", () => {
+  it("runs encryption, keypair generation and decryption in the worker", async () => {
+    const { sdk, added, encrypt } = createFakeSDK();
+    const instance = await createFhevmWorkerInstance({
+      instance: mainInstance,
+      config: { chainId: 11155111 } as FhevmInstanceConfig,
+      provider: { request: async () => "0xaa36a7" },
+      options: { createWorker: () => createInProcessWorker(sdk) },
+    });
+
+    expect(sdk.createInstance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chainId: 11155111,
+        publicKey: { id: "pk-id", data: new Uint8Array([9]) },
+        publicParams: { 2048: { publicParamsId: "pp-id", publicParams: new Uint8Array([8]) } },
+      }),
+    );
+
+    const input = instance.createEncryptedInput("0xc", "0xu");
+    input.add64(7n).addBool(true);
+    expect(input.getBits()).toEqual([64, 2]);
+    const enc = await input.encrypt();
+    expect(added).toEqual([
+      ["add64", 7n],
+      ["addBool", true],
+    ]);
+    expect(encrypt).toHaveBeenCalledTimes(1);
+    expect(enc.inputProof).toEqual(new Uint8Array([3]));
+
+    expect(await instance.generateKeypairAsync()).toEqual({ publicKey: "0xpub", privateKey: "0xpriv" });
+    expect(await instance.userDecrypt([], "", "", "", [], "", 0, 0)).toEqual({ "0xh": 42n });
+    // Synchronous calls stay on the main thread instance
+    expect((instance as any).createEIP712()).toBe("eip712");
+  });
+
+  it("forwards the worker JSON-RPC calls to the main thread provider", async () => {
+    const { sdk } = createFakeSDK();
+    const request = vi.fn(async () => "0xaa36a7");
+    const instance = await createFhevmWorkerInstance({
+      instance: mainInstance,
+      config: {} as FhevmInstanceConfig,
+      provider: { request },
+      options: { createWorker: () => createInProcessWorker(sdk) },
+    });
+    expect(await instance.publicDecrypt([])).toEqual({ chainId: "0xaa36a7" });
+    expect(request).toHaveBeenCalledWith({ method: "eth_chainId", params: undefined });
+  });
+
+  it("hands the worker the relayer SDK fetched with the loader sources and integrity", async () => {
+    const { sdk } = createFakeSDK();
+    const importScripts = vi.fn();
+    await createFhevmWorkerInstance({
+      instance: mainInstance,
+      config: {} as FhevmInstanceConfig,
+      provider: "https://rpc.example.org",
+      options: { createWorker: () => createInProcessWorker(undefined, importScripts) },
+      loader: { sources: [{ url: "https://cdn.example.org/sdk.js", integrity: "sha384-abc" }], retries: 0 },
+    }).catch(() => undefined);
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://cdn.example.org/sdk.js",
+      expect.objectContaining({ integrity: "sha384-abc" }),
+    );
+    const blob = vi.mocked(URL.createObjectURL).mock.calls[0][0] as Blob;
+    // jsdom blobs have no text()
+    const reader = new FileReader();
+    reader.readAsText(blob);
+    await new Promise(resolve => (reader.onload = resolve));
+    expect(reader.result).toBe(SDK_SCRIPT);
+    expect(importScripts).toHaveBeenCalledWith("blob:sdk");
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:sdk");
+    expect(sdk.createInstance).not.toHaveBeenCalled();
+  });
+
+  it("does not spawn a worker when the relayer SDK cannot be fetched", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response("", { status: 503 }));
+    const createWorker = vi.fn();
+    await expect(
+      createFhevmWorkerInstance({
+        instance: mainInstance,
+        config: {} as FhevmInstanceConfig,
+        provider: "https://rpc.example.org",
+        options: { createWorker },
+        loader: { retries: 0 },
+      }),
+    ).rejects.toMatchObject({ code: "RELAYER_SDK_LOAD_FAILED" });
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  publicKeyStorageClear,
+  publicKeyStorageEntries,
+  publicKeyStorageGet,
+  publicKeyStorageSet,
+} from "../src/internal/PublicKeyStorage";
+import { SDK_VERSION } from "../src/internal/constants";
+import { FhevmLogEntry, silentFhevmLogger } from "../src/internal/logger";
+import { PublicKeyInMemoryStore } from "../src/storage/PublicKeyStore";
+
+const ACL = "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D";
+const RELAYER_URL = "https://relayer.example.org";
+
+function stubKeyUrl(publicKeyId: string, crs2048Id: string) {
+  const fetchMock = vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      response: {
+        fhe_key_info: [{ fhe_public_key: { data_id: publicKeyId, urls: [] } }],
+        crs: { "2048": { data_id: crs2048Id, urls: [] } },
+      },
+      status: "succeeded",
+    }),
+  }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+async function seed() {
+  await publicKeyStorageSet(
+    ACL,
+    { publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) },
+    {
+      2048: { publicParamsId: "crs-1", publicParams: new Uint8Array([4, 5]) },
+      4096: { publicParamsId: "crs-4096", publicParams: new Uint8Array([6]) },
+    },
+  );
+}
+
+describe("PublicKeyStorage", () => {
+  beforeEach(async () => {
+    await publicKeyStorageClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("stores keys with their metadata and all public params sizes", async () => {
+    await seed();
+
+    const pub = await publicKeyStorageGet(ACL);
+    expect(pub.publicKey?.id).toBe("pk-1");
+    expect(pub.publicParams?.[2048].publicParamsId).toBe("crs-1");
+    expect(pub.publicParams?.[4096].publicParamsId).toBe("crs-4096");
+
+    const entries = await publicKeyStorageEntries(ACL);
+    expect(entries).toHaveLength(3);
+    const pk = entries.find(e => e.kind === "publicKey");
+    expect(pk).toMatchObject({ id: "pk-1", sdkVersion: SDK_VERSION, byteLength: 3 });
+    expect(typeof pk?.fetchedAt).toBe("number");
+  });
+
+  it("keeps entries still advertised by the relayer", async () => {
+    await seed();
+    const fetchMock = stubKeyUrl("pk-1", "crs-1");
+
+    const pub = await publicKeyStorageGet(ACL, { relayerUrl: RELAYER_URL, logger: silentFhevmLogger });
+    expect(fetchMock).toHaveBeenCalledWith(`${RELAYER_URL}/v1/keyurl`, expect.anything());
+    expect(pub.publicKey?.id).toBe("pk-1");
+    expect(pub.publicParams?.[2048].publicParamsId).toBe("crs-1");
+  });
+
+  it("invalidates entries when the relayer advertises new key ids", async () => {
+    await seed();
+    stubKeyUrl("pk-2", "crs-2");
+
+    const pub = await publicKeyStorageGet(ACL, { relayerUrl: RELAYER_URL, logger: silentFhevmLogger });
+    expect(pub.publicKey).toBeUndefined();
+    expect(pub.publicParams).toBeNull();
+    expect(await publicKeyStorageEntries(ACL)).toHaveLength(0);
+  });
+
+  it("treats invalidated entries as missing when the store cannot remove them", async () => {
+    const store = new PublicKeyInMemoryStore();
+    await publicKeyStorageSet(
+      ACL,
+      { publicKeyId: "pk-1", publicKey: new Uint8Array([1]) },
+      { 2048: { publicParamsId: "crs-1", publicParams: new Uint8Array([2]) } },
+      { store },
+    );
+    vi.spyOn(store, "removePublicKey").mockRejectedValue(new Error("quota"));
+    vi.spyOn(store, "removePublicParams").mockRejectedValue(new Error("quota"));
+    stubKeyUrl("pk-2", "crs-2");
+    const entries: FhevmLogEntry[] = [];
+
+    const pub = await publicKeyStorageGet(ACL, {
+      relayerUrl: RELAYER_URL,
+      store,
+      logger: { log: e => entries.push(e) },
+    });
+    expect(pub.publicKey).toBeUndefined();
+    expect(pub.publicParams).toBeNull();
+    expect(entries.filter(e => e.event === "cache.invalidate-failed").map(e => [e.level, e.data?.kind])).toEqual([
+      ["warn", "publicKey"],
+      ["warn", "publicParams"],
+    ]);
+  });
+
+  it("uses the cache when the relayer is unreachable", async () => {
+    await seed();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("Failed to fetch");
+      }),
+    );
+
+    const pub = await publicKeyStorageGet(ACL, { relayerUrl: RELAYER_URL, logger: silentFhevmLogger });
+    expect(pub.publicKey?.id).toBe("pk-1");
+  });
+
+  it("clears the cache", async () => {
+    await seed();
+    await publicKeyStorageClear(ACL);
+    expect(await publicKeyStorageEntries()).toHaveLength(0);
+  });
+});
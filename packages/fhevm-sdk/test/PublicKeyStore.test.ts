@@ -0,0 +1,64 @@
+import { afterAll, describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PublicKeyInMemoryStore, PublicKeyStore } from "../src/storage/PublicKeyStore";
+import { PublicKeyFilesystemStore } from "../src/node/PublicKeyFilesystemStore";
+import {
+  publicKeyStorageClear,
+  publicKeyStorageEntries,
+  publicKeyStorageGet,
+  publicKeyStorageSet,
+} from "../src/internal/PublicKeyStorage";
+
+const ACL = "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D";
+
+const tmpDirs: string[] = [];
+
+afterAll(async () => {
+  for (const dir of tmpDirs) {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+async function roundTrip(store: PublicKeyStore) {
+  await publicKeyStorageSet(
+    ACL,
+    { publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) },
+    { 2048: { publicParamsId: "crs-1", publicParams: new Uint8Array([4, 5]) } },
+    { store },
+  );
+
+  const pub = await publicKeyStorageGet(ACL, { store });
+  expect(pub.publicKey?.id).toBe("pk-1");
+  expect(Array.from(pub.publicKey?.data ?? [])).toEqual([1, 2, 3]);
+  expect(Array.from(pub.publicParams?.[2048].publicParams ?? [])).toEqual([4, 5]);
+
+  const entries = await publicKeyStorageEntries(undefined, { store });
+  expect(entries.map(e => e.acl)).toEqual([ACL, ACL]);
+
+  await publicKeyStorageClear(undefined, { store });
+  expect(await publicKeyStorageEntries(undefined, { store })).toHaveLength(0);
+}
+
+describe("PublicKeyStore", () => {
+  it("caches keys in memory", async () => {
+    await roundTrip(new PublicKeyInMemoryStore());
+  });
+
+  it("caches keys on the file system", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "fhevm-pk-"));
+    tmpDirs.push(directory);
+    await roundTrip(new PublicKeyFilesystemStore({ directory }));
+  });
+
+  it("shares the file system cache between store instances", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "fhevm-pk-"));
+    tmpDirs.push(directory);
+    await publicKeyStorageSet(ACL, { publicKeyId: "pk-1", publicKey: new Uint8Array([1]) }, null, {
+      store: new PublicKeyFilesystemStore({ directory }),
+    });
+    const pub = await publicKeyStorageGet(ACL, { store: new PublicKeyFilesystemStore({ directory }) });
+    expect(pub.publicKey?.id).toBe("pk-1");
+  });
+});
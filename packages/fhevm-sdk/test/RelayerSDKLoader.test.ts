@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { RelayerSDKLoader } from "../src/internal/RelayerSDKLoader";
+
+const fakeSDK = () => ({
+  initSDK: async () => true,
+  createInstance: async () => ({}),
+  SepoliaConfig: {},
+});
+
+// jsdom never fetches external scripts, simulate the network instead
+function simulateScripts(behaviour: (script: HTMLScriptElement) => "load" | "error" | "hang") {
+  const appended: HTMLScriptElement[] = [];
+  const original = document.head.appendChild.bind(document.head);
+  vi.spyOn(document.head, "appendChild").mockImplementation(<T extends Node>(node: T): T => {
+    const script = node as unknown as HTMLScriptElement;
+    appended.push(script);
+    original(node);
+    const b = behaviour(script);
+    if (b === "load") {
+      (window as any).relayerSDK = fakeSDK();
+      setTimeout(() => script.onload?.(new Event("load")));
+    } else if (b === "error") {
+      setTimeout(() => script.onerror?.(new Event("error")));
+    }
+    return node;
+  });
+  return appended;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  delete (window as any).relayerSDK;
+  document.head.innerHTML = "";
+});
+
+describe("RelayerSDKLoader", () => {
+  it("falls back to the next source and sets SRI attributes", async () => {
+    const appended = simulateScripts(s => (s.src.includes("self-hosted") ? "error" : "load"));
+    const loader = new RelayerSDKLoader({
+      sources: [
+        "https://example.org/self-hosted.js",
+        { url: "https://cdn.example.org/sdk.js", integrity: "sha384-abc" },
+      ],
+      retries: 0,
+    });
+    await loader.load();
+    expect(appended.map(s => s.src)).toEqual(["https://example.org/self-hosted.js", "https://cdn.example.org/sdk.js"]);
+    expect(appended[1].integrity).toBe("sha384-abc");
+    expect(appended[1].crossOrigin).toBe("anonymous");
+    expect(loader.isLoaded()).toBe(true);
+  });
+
+  it("times out and retries every source", async () => {
+    const appended = simulateScripts(() => "hang");
+    const loader = new RelayerSDKLoader({
+      sources: ["https://example.org/a.js", "https://example.org/b.js"],
+      timeoutMs: 10,
+      retries: 1,
+      retryDelayMs: 1,
+    });
+    await expect(loader.load()).rejects.toThrowError(/after 2 attempt/);
+    expect(appended).toHaveLength(4);
+    expect(document.querySelectorAll("script")).toHaveLength(0);
+  });
+
+  it("imports a bundled module without injecting a script", async () => {
+    const appendChild = vi.spyOn(document.head, "appendChild");
+    const loader = new RelayerSDKLoader({ bundled: async () => Object.freeze(fakeSDK()) });
+    await loader.load();
+    expect(appendChild).not.toHaveBeenCalled();
+    expect(loader.isLoaded()).toBe(true);
+    (window as any).relayerSDK.__initialized__ = true;
+  });
+
+  it("fetches the script text with the integrity hash, falling back to the next source", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.includes("self-hosted") ? new Response("", { status: 404 }) : new Response("self.relayerSDK = {};"),
+    );
+    vi.stubGlobal("fetch", fetch);
+    const loader = new RelayerSDKLoader({
+      sources: [
+        "https://example.org/self-hosted.js",
+        { url: "https://cdn.example.org/sdk.js", integrity: "sha384-abc" },
+      ],
+      retries: 0,
+    });
+    expect(await loader.fetchScript()).toBe("self.relayerSDK = {};");
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.org/self-hosted.js",
+      "https://cdn.example.org/sdk.js",
+    ]);
+    expect(fetch.mock.calls[1][1]).toMatchObject({ integrity: "sha384-abc", credentials: "same-origin" });
+  });
+
+  it("times out and retries the script fetch", async () => {
+    const fetch = vi.fn(
+      (_: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => init.signal?.addEventListener("abort", () => reject(new Error()))),
+    );
+    vi.stubGlobal("fetch", fetch);
+    const loader = new RelayerSDKLoader({
+      sources: ["https://example.org/a.js"],
+      timeoutMs: 10,
+      retries: 1,
+      retryDelayMs: 1,
+    });
+    await expect(loader.fetchScript()).rejects.toMatchObject({ code: "RELAYER_SDK_LOAD_TIMEOUT" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
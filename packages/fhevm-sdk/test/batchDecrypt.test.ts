@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { chunkDecryptRequests, decryptInChunks, FhevmDecryptProgress } from "../src/internal/batchDecrypt";
+import { FhevmAbortError, FhevmDecryptError } from "../src/internal/errors";
+
+const C1 = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+
+// euint64 handles (type 0x05)
+function handle(i: number) {
+  return `0x${i.toString(16).padStart(60, "0")}0500`;
+}
+
+function requests(count: number, contract = (_: number) => C1) {
+  return Array.from({ length: count }, (_, i) => ({
+    handle: handle(i),
+    contractAddress: contract(i) as `0x${string}`,
+  }));
+}
+
+describe("chunkDecryptRequests", () => {
+  it("respects the chunk size, the 2048 bits and the 10 contracts limits", () => {
+    expect(chunkDecryptRequests(requests(10), 4).map(c => c.length)).toEqual([4, 4, 2]);
+    // 64 bits per handle, at most 32 handles per request
+    expect(chunkDecryptRequests(requests(40), 100).map(c => c.length)).toEqual([32, 8]);
+    const perContract = requests(12, i => `0x${String(i).padStart(40, "0")}`);
+    expect(chunkDecryptRequests(perContract, 100).map(c => c.length)).toEqual([10, 2]);
+    expect(() => chunkDecryptRequests(requests(1), 0)).toThrow(RangeError);
+  });
+});
+
+describe("decryptInChunks", () => {
+  it("reports partial results, progress and per-handle failures", async () => {
+    const all = requests(7);
+    const progress: FhevmDecryptProgress[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const { results, failures } = await decryptInChunks(
+      all,
+      async chunk => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        running--;
+        if (chunk[0].handle === handle(2)) {
+          throw new Error("Relayer didn't response correctly");
+        }
+        // The last handle is never returned
+        return Object.fromEntries(chunk.filter(r => r.handle !== handle(6)).map(r => [r.handle, BigInt(r.handle)]));
+      },
+      { chunkSize: 2, concurrency: 2, onChunk: (_, p) => void progress.push(p) },
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(Object.keys(results)).toEqual(expect.arrayContaining([handle(0), handle(1), handle(4), handle(5)]));
+    expect(Object.keys(results)).toHaveLength(4);
+    expect(Object.keys(failures).sort()).toEqual([handle(2), handle(3), handle(6)].sort());
+    expect(failures[handle(6)]).toBeInstanceOf(FhevmDecryptError);
+    expect(progress).toHaveLength(4);
+    expect(progress[3]).toEqual({ decrypted: 4, failed: 3, total: 7 });
+  });
+
+  it("stops starting chunks once aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const promise = decryptInChunks(
+      requests(6),
+      async chunk => {
+        calls++;
+        controller.abort();
+        return Object.fromEntries(chunk.map(r => [r.handle, 1n]));
+      },
+      { chunkSize: 2, concurrency: 1, signal: controller.signal },
+    );
+    await expect(promise).rejects.toBeInstanceOf(FhevmAbortError);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  FHEVM_SEPOLIA_CHAIN_CONFIG,
+  getFhevmChainConfig,
+  isFhevmChainSupported,
+  registerFhevmChain,
+  unregisterFhevmChain,
+} from "../src/internal/chains";
+
+const customChain = {
+  ...FHEVM_SEPOLIA_CHAIN_CONFIG,
+  chainId: 424242,
+  relayerUrl: "https://relayer.example.org",
+};
+
+describe("FHEVM chain registry", () => {
+  it("resolves Sepolia by default", () => {
+    expect(getFhevmChainConfig(11155111).aclContractAddress).toBe(FHEVM_SEPOLIA_CHAIN_CONFIG.aclContractAddress);
+  });
+
+  it("throws a clear error on unsupported chains", () => {
+    expect(() => getFhevmChainConfig(1)).toThrowError(/chainId=1/);
+  });
+
+  it("registers and unregisters custom chains", () => {
+    registerFhevmChain(customChain);
+    expect(isFhevmChainSupported(424242)).toBe(true);
+    expect(getFhevmChainConfig(424242).relayerUrl).toBe("https://relayer.example.org");
+    expect(() => registerFhevmChain(customChain)).toThrowError(/already registered/);
+    registerFhevmChain({ ...customChain, relayerUrl: "https://other.example.org" }, { override: true });
+    expect(getFhevmChainConfig(424242).relayerUrl).toBe("https://other.example.org");
+    expect(unregisterFhevmChain(424242)).toBe(true);
+    expect(isFhevmChainSupported(424242)).toBe(false);
+  });
+
+  it("rejects invalid configs", () => {
+    expect(() => registerFhevmChain({ ...customChain, aclContractAddress: "0x1234" })).toThrowError(
+      /aclContractAddress/,
+    );
+  });
+});
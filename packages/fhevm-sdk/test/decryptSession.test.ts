@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { FhevmDecryptSession, pendingDecryptRequests } from "../src/internal/decryptSession";
+
+const C1 = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+
+function request(handle: string) {
+  return { handle, contractAddress: C1 as `0x${string}` };
+}
+
+describe("pendingDecryptRequests", () => {
+  it("never requests decrypted handles again and requests duplicates once", () => {
+    const requests = [request("0x01"), request("0x02"), request("0x01"), request("0x03")];
+    expect(pendingDecryptRequests(requests, { "0x02": 5n }).map(r => r.handle)).toEqual(["0x01", "0x03"]);
+    expect(pendingDecryptRequests(undefined, {})).toEqual([]);
+  });
+
+  it("skips failed handles only when failures are given", () => {
+    const requests = [request("0x01"), request("0x02")];
+    const failures = { "0x01": new Error("boom") };
+    expect(pendingDecryptRequests(requests, {}).map(r => r.handle)).toEqual(["0x01", "0x02"]);
+    expect(pendingDecryptRequests(requests, {}, failures).map(r => r.handle)).toEqual(["0x02"]);
+  });
+});
+
+describe("FhevmDecryptSession", () => {
+  it("merges results, later values of a handle win", () => {
+    const session = new FhevmDecryptSession();
+    const id = session.id;
+    expect(session.merge(id, { "0x01": 1n, "0x02": true })).toBe(true);
+    const before = session.results;
+    expect(session.merge(id, { "0x02": false, "0x03": "0xabc" })).toBe(true);
+    expect(session.results).toEqual({ "0x01": 1n, "0x02": false, "0x03": "0xabc" });
+    // A new object on each merge, so React sees the change
+    expect(session.results).not.toBe(before);
+    expect(session.pending([request("0x01"), request("0x04")]).map(r => r.handle)).toEqual(["0x04"]);
+  });
+
+  it("drops the results on reset and ignores values of a previous session", () => {
+    const session = new FhevmDecryptSession();
+    const previous = session.id;
+    session.merge(previous, { "0x01": 1n });
+
+    session.reset();
+    expect(session.results).toEqual({});
+    expect(session.isStale(previous)).toBe(true);
+    expect(session.isStale(session.id)).toBe(false);
+
+    // A decryption started before the reset resolves late
+    expect(session.merge(previous, { "0x02": 2n })).toBe(false);
+    expect(session.results).toEqual({});
+    expect(session.pending([request("0x01"), request("0x02")])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import {
+  FhevmEncryptedInputBuilder,
+  fhevmEncryptedTypeOf,
+  validateEncryptedValue,
+} from "../src/internal/encryptedInput";
+import { FhevmEncryptError } from "../src/internal/errors";
+
+function recordingInput() {
+  const calls: [string, unknown][] = [];
+  const input = new Proxy({} as RelayerEncryptedInput, {
+    get: (_, method: string) =>
+      function (this: unknown, value: unknown) {
+        calls.push([method, value]);
+        return this;
+      },
+  });
+  return { input, calls };
+}
+
+function validationError(fn: () => unknown): FhevmEncryptError {
+  try {
+    fn();
+  } catch (e) {
+    return e as FhevmEncryptError;
+  }
+  throw new Error("Expected a validation error");
+}
+
+describe("validateEncryptedValue", () => {
+  it("checks ranges and accepts bigints", () => {
+    expect(validateEncryptedValue("euint32", 4294967295)).toBe(4294967295);
+    expect(validateEncryptedValue("euint256", 2n ** 256n - 1n)).toBe(2n ** 256n - 1n);
+
+    const e = validationError(() => validateEncryptedValue("euint32", 5_000_000_000, "score"));
+    expect(e).toBeInstanceOf(FhevmEncryptError);
+    expect(e.code).toBe("INVALID_ENCRYPTED_VALUE");
+    expect(e.parameter).toBe("score");
+    expect(e.message).toBe("Invalid value 5000000000 for score (euint32): out of range, expected 0 to 4294967295");
+
+    expect(validationError(() => validateEncryptedValue("euint8", -1)).message).toMatch(/out of range/);
+    expect(validationError(() => validateEncryptedValue("euint8", 1.5)).message).toMatch(/integer/);
+    expect(validationError(() => validateEncryptedValue("euint64", 2 ** 60)).message).toMatch(/bigint/);
+  });
+
+  it("checks booleans and addresses", () => {
+    expect(validateEncryptedValue("ebool", 1n)).toBe(1n);
+    expect(validationError(() => validateEncryptedValue("ebool", 2)).message).toMatch(/boolean/);
+    expect(validateEncryptedValue("eaddress", "0x50157cffd6bbfa2dece204a89ec419c23ef5755d")).toBe(
+      "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
+    );
+    expect(validationError(() => validateEncryptedValue("eaddress", "0x1234")).message).toMatch(/address/);
+  });
+});
+
+describe("FhevmEncryptedInputBuilder", () => {
+  it("adds validated values with the matching relayer method", () => {
+    const { input, calls } = recordingInput();
+    new FhevmEncryptedInputBuilder(input).euint32(42).ebool(true).euint256(7n);
+    expect(calls).toEqual([
+      ["add32", 42],
+      ["addBool", true],
+      ["add256", 7n],
+    ]);
+    expect(() => new FhevmEncryptedInputBuilder(input).euint16(70_000)).toThrow(FhevmEncryptError);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("maps Solidity internal types", () => {
+    expect(fhevmEncryptedTypeOf("externalEuint32")).toBe("euint32");
+    expect(fhevmEncryptedTypeOf("euint8")).toBe("euint8");
+    expect(fhevmEncryptedTypeOf("externalEint32")).toBeUndefined();
+  });
+});
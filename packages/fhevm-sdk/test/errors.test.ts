@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  FhevmAbortError,
+  FhevmAclDeniedError,
+  FhevmConfigError,
+  FhevmDecryptError,
+  FhevmError,
+  FhevmInitError,
+  FhevmReactError,
+  FhevmRelayerError,
+  FhevmSignatureRejectedError,
+  isFhevmError,
+  toFhevmError,
+} from "../src/internal/errors";
+import { getFhevmChainConfig } from "../src/internal/chains";
+
+describe("FhevmError hierarchy", () => {
+  it("keeps FhevmReactError as an alias of FhevmInitError", () => {
+    const e = new FhevmReactError("SDK_INIT_FAILED", "initSDK failed");
+    expect(e).toBeInstanceOf(FhevmInitError);
+    expect(e).toBeInstanceOf(FhevmError);
+    expect(e.code).toBe("SDK_INIT_FAILED");
+  });
+
+  it("keeps SDK errors untouched", () => {
+    const e = new FhevmAbortError();
+    expect(toFhevmError(e, "init")).toBe(e);
+    expect(e.kind).toBe("aborted");
+    expect(e.code).toBe("ABORTED");
+  });
+
+  it("maps wallet rejections to FhevmSignatureRejectedError", () => {
+    const e = toFhevmError({ code: 4001, message: "User rejected the request." }, "signature");
+    expect(e).toBeInstanceOf(FhevmSignatureRejectedError);
+    expect(e.kind).toBe("signature-rejected");
+
+    const wrapped = toFhevmError({ code: "UNKNOWN_ERROR", error: { code: 4001 } }, "signature");
+    expect(wrapped).toBeInstanceOf(FhevmSignatureRejectedError);
+  });
+
+  it("maps ACL failures to FhevmAclDeniedError with the handle", () => {
+    const handle = "0x" + "ab".repeat(32);
+    const e = toFhevmError(
+      new Error(`User 0x0000000000000000000000000000000000000001 is not authorized to user decrypt handle ${handle}!`),
+      "decrypt",
+    );
+    expect(e).toBeInstanceOf(FhevmAclDeniedError);
+    expect((e as FhevmAclDeniedError).handle).toBe(handle);
+  });
+
+  it("maps relayer SDK errors to FhevmRelayerError", () => {
+    const e = toFhevmError(
+      new Error("User decrypt failed: relayer respond with HTTP code 500", {
+        cause: { code: "RELAYER_UNEXPECTED_JSON_ERROR", operation: "USER_DECRYPT", status: 500 },
+      }),
+      "decrypt",
+    );
+    expect(e).toBeInstanceOf(FhevmRelayerError);
+    expect((e as FhevmRelayerError).relayerCode).toBe("RELAYER_UNEXPECTED_JSON_ERROR");
+    expect((e as FhevmRelayerError).status).toBe(500);
+  });
+
+  it("falls back on the operation context", () => {
+    const e = toFhevmError(new Error("boom"), "decrypt");
+    expect(e).toBeInstanceOf(FhevmDecryptError);
+    expect(e.code).toBe("DECRYPT_FAILED");
+    expect(e.message).toBe("boom");
+    expect(toFhevmError("boom", "encrypt").code).toBe("ENCRYPT_FAILED");
+  });
+
+  it("is thrown by the chain registry", () => {
+    try {
+      getFhevmChainConfig(1);
+      expect.unreachable();
+    } catch (e) {
+      expect(isFhevmError(e)).toBe(true);
+      expect(e).toBeInstanceOf(FhevmConfigError);
+      expect((e as FhevmConfigError).code).toBe("FHEVM_UNSUPPORTED_CHAIN");
+    }
+  });
+});
@@ -3,6 +3,7 @@ import * as main from "../src";
 import * as react from "../src/react";
 import * as core from "../src/core";
 import * as storage from "../src/storage";
+import * as node from "../src/node";
 
 describe("exports", () => {
   it("main exports are present", () => {
@@ -20,5 +21,8 @@ describe("exports", () => {
   it("storage exports are present", () => {
     expect(storage).toBeTruthy();
   });
-});
 
+  it("node exports are present", () => {
+    expect(node.createFhevmNodeInstance).toBeTypeOf("function");
+  });
+});
@@ -0,0 +1,214 @@
+import { afterAll, afterEach, describe, it, expect, vi } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { JsonRpcProvider } from "ethers";
+import { createFhevmNodeInstance } from "../src/node/fhevmNode";
+import { FhevmLogEntry, silentFhevmLogger } from "../src/internal/logger";
+import { getFhevmChainConfig } from "../src/internal/chains";
+import { publicKeyStorageSet } from "../src/internal/PublicKeyStorage";
+import { PublicKeyInMemoryStore } from "../src/storage/PublicKeyStore";
+
+const { fhevmMockCreateInstance, createInstance } = vi.hoisted(() => ({
+  fhevmMockCreateInstance: vi.fn(async () => ({ kind: "mock" })),
+  createInstance: vi.fn(async () => ({
+    kind: "relayer",
+    getPublicKey: () => ({ publicKeyId: "pk-1", publicKey: new Uint8Array([1, 2, 3]) }),
+    getPublicParams: (bits: number) => ({ publicParamsId: `crs-${bits}`, publicParams: new Uint8Array([4, 5]) }),
+  })),
+}));
+
+vi.mock("../src/internal/mock/fhevmMock", () => ({ fhevmMockCreateInstance }));
+vi.mock("@zama-fhe/relayer-sdk/node", () => ({ createInstance }));
+
+const ACL = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+const INPUT_VERIFIER = "0x901F8942346f7AB3a01F6D7613119Bca447Bb030";
+const KMS_VERIFIER = "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC";
+
+// Minimal JSON-RPC node of the given chain, exposing the hardhat FHEVM metadata
+function startNode(chainId: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const reply = (p: { id: number; method: string }) => {
+        switch (p.method) {
+          case "eth_chainId":
+            return { jsonrpc: "2.0", id: p.id, result: `0x${chainId.toString(16)}` };
+          case "web3_clientVersion":
+            return { jsonrpc: "2.0", id: p.id, result: "HardhatNetwork/2.22.0" };
+          case "fhevm_relayer_metadata":
+            return {
+              jsonrpc: "2.0",
+              id: p.id,
+              result: { ACLAddress: ACL, InputVerifierAddress: INPUT_VERIFIER, KMSVerifierAddress: KMS_VERIFIER },
+            };
+        }
+        return { jsonrpc: "2.0", id: p.id, error: { code: -32601, message: "Method not found" } };
+      };
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(reply) : reply(payload)));
+    });
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+const servers: Server[] = [];
+const providers: JsonRpcProvider[] = [];
+
+async function nodeUrl(chainId: number) {
+  const server = await startNode(chainId);
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function jsonRpcProvider(url: string, chainId: number) {
+  const provider = new JsonRpcProvider(url, chainId, { staticNetwork: true });
+  providers.push(provider);
+  return provider;
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.unstubAllGlobals();
+});
+
+afterAll(() => {
+  for (const provider of providers) {
+    provider.destroy();
+  }
+  for (const server of servers) {
+    server.close();
+  }
+});
+
+describe("createFhevmNodeInstance", () => {
+  it("creates a mock instance for a local hardhat node given as a URL", async () => {
+    const url = await nodeUrl(31337);
+    const statuses: string[] = [];
+
+    const instance = await createFhevmNodeInstance({
+      provider: url,
+      logger: silentFhevmLogger,
+      onStatusChange: status => statuses.push(status),
+    });
+
+    expect(instance).toEqual({ kind: "mock" });
+    expect(fhevmMockCreateInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ rpcUrl: url, chainId: 31337, metadata: expect.objectContaining({ ACLAddress: ACL }) }),
+    );
+    expect(statuses).toEqual(["creating"]);
+    expect(createInstance).not.toHaveBeenCalled();
+  });
+
+  it("detects the mock chain of a JsonRpcProvider through its explicit rpcUrl", async () => {
+    const url = await nodeUrl(31337);
+
+    await createFhevmNodeInstance({
+      provider: jsonRpcProvider(url, 31337),
+      rpcUrl: url,
+      logger: silentFhevmLogger,
+    });
+
+    expect(fhevmMockCreateInstance).toHaveBeenCalledWith(expect.objectContaining({ rpcUrl: url, chainId: 31337 }));
+  });
+
+  it("falls back to the mockChains entry of the provider chain", async () => {
+    const url = await nodeUrl(31337);
+
+    await createFhevmNodeInstance({
+      provider: jsonRpcProvider(url, 31337),
+      mockChains: { 31337: url },
+      logger: silentFhevmLogger,
+    });
+
+    expect(fhevmMockCreateInstance).toHaveBeenCalledWith(expect.objectContaining({ rpcUrl: url, chainId: 31337 }));
+  });
+
+  it("creates a relayer instance with the Node build of the relayer SDK", async () => {
+    const url = await nodeUrl(11155111);
+    const publicKeyStore = new PublicKeyInMemoryStore();
+    const statuses: string[] = [];
+
+    const instance = await createFhevmNodeInstance({
+      provider: jsonRpcProvider(url, 11155111),
+      logger: silentFhevmLogger,
+      publicKeyStore,
+      onStatusChange: status => statuses.push(status),
+    });
+
+    expect(instance).toMatchObject({ kind: "relayer" });
+    expect(statuses).toEqual(["sdk-loading", "sdk-loaded", "creating"]);
+    expect(createInstance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chainId: 11155111,
+        network: expect.objectContaining({ request: expect.any(Function) }),
+      }),
+    );
+    expect(fhevmMockCreateInstance).not.toHaveBeenCalled();
+  });
+
+  it("rejects with FHEVM_UNSUPPORTED_CHAIN on an unknown chain", async () => {
+    const url = await nodeUrl(424242);
+
+    await expect(createFhevmNodeInstance({ provider: url, logger: silentFhevmLogger })).rejects.toMatchObject({
+      code: "FHEVM_UNSUPPORTED_CHAIN",
+    });
+    expect(createInstance).not.toHaveBeenCalled();
+  });
+
+  it("caches the public params of every size the instance exposes", async () => {
+    const url = await nodeUrl(11155111);
+    const acl = getFhevmChainConfig(11155111).aclContractAddress as `0x${string}`;
+    const publicKeyStore = new PublicKeyInMemoryStore();
+    await publicKeyStorageSet(
+      acl,
+      null,
+      {
+        2048: { publicParamsId: "crs-old", publicParams: new Uint8Array([4]) },
+        4096: { publicParamsId: "crs-old", publicParams: new Uint8Array([6]) },
+      },
+      { store: publicKeyStore },
+    );
+    // The relayer key ids cannot be checked, the cached CRS is used as is
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      }),
+    );
+
+    await createFhevmNodeInstance({
+      provider: jsonRpcProvider(url, 11155111),
+      logger: silentFhevmLogger,
+      publicKeyStore,
+    });
+
+    const cached = await publicKeyStore.getPublicParams(acl);
+    expect(cached.map(pp => [pp.bits, pp.publicParamsId]).sort()).toEqual([
+      [2048, "crs-2048"],
+      [4096, "crs-4096"],
+    ]);
+    expect((await publicKeyStore.getPublicKey(acl))?.publicKeyId).toBe("pk-1");
+  });
+
+  it("still creates the instance when the public key cannot be cached", async () => {
+    const url = await nodeUrl(11155111);
+    const entries: FhevmLogEntry[] = [];
+    const publicKeyStore = new PublicKeyInMemoryStore();
+    publicKeyStore.setPublicKey = async () => {
+      throw Object.assign(new Error("EACCES: permission denied"), { code: "EACCES" });
+    };
+
+    const instance = await createFhevmNodeInstance({
+      provider: jsonRpcProvider(url, 11155111),
+      logger: { log: e => entries.push(e) },
+      publicKeyStore,
+    });
+
+    expect(instance).toMatchObject({ kind: "relayer" });
+    expect(entries).toContainEqual(
+      expect.objectContaining({ level: "warn", event: "cache.write-failed", scope: "createFhevmNodeInstance" }),
+    );
+  });
+});
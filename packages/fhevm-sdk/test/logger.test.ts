@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createConsoleFhevmLogger,
+  FhevmLogEntry,
+  scopeFhevmLogger,
+  setDefaultFhevmLogger,
+} from "../src/internal/logger";
+
+describe("FhevmLogger", () => {
+  it("emits structured entries through a scope", () => {
+    const entries: FhevmLogEntry[] = [];
+    const log = scopeFhevmLogger({ log: e => entries.push(e) }, "test");
+    log.error("op.failed", { code: "SOME_CODE", durationMs: 12 });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: "error",
+      scope: "test",
+      event: "op.failed",
+      code: "SOME_CODE",
+      durationMs: 12,
+    });
+    expect(typeof entries[0].timestamp).toBe("number");
+  });
+
+  it("filters console output by level", () => {
+    const out = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const log = scopeFhevmLogger(createConsoleFhevmLogger({ level: "warn", console: out }), "test");
+    log.debug("a");
+    log.info("b");
+    log.warn("c", { message: "careful" });
+    expect(out.debug).not.toHaveBeenCalled();
+    expect(out.info).not.toHaveBeenCalled();
+    expect(out.warn).toHaveBeenCalledWith("[test] c: careful", expect.any(Object));
+  });
+
+  it("falls back to the default logger and never throws", () => {
+    const entries: FhevmLogEntry[] = [];
+    setDefaultFhevmLogger({ log: e => entries.push(e) });
+    scopeFhevmLogger(undefined, "test").info("x");
+    expect(entries).toHaveLength(1);
+    setDefaultFhevmLogger({
+      log: () => {
+        throw new Error("boom");
+      },
+    });
+    expect(() => scopeFhevmLogger(undefined, "test").info("x")).not.toThrow();
+    setDefaultFhevmLogger(undefined);
+  });
+
+  it("only prints warnings and errors by default outside production", () => {
+    setDefaultFhevmLogger(undefined);
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const log = scopeFhevmLogger(undefined, "test");
+    log.info("a");
+    log.warn("b");
+    expect(info).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("[test] b", expect.any(Object));
+    info.mockRestore();
+    warn.mockRestore();
+    setDefaultFhevmLogger(undefined);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tryCreateFhevmMockInstance } from "../src/internal/resolve";
+
+const fhevmMockCreateInstance = vi.fn(async (parameters: unknown) => parameters);
+
+vi.mock("../src/internal/mock/fhevmMock", () => ({
+  fhevmMockCreateInstance: (parameters: unknown) => fhevmMockCreateInstance(parameters),
+}));
+
+const ACL = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+const INPUT_VERIFIER = "0x901F8942346f7AB3a01F6D7613119Bca447Bb030";
+const KMS_VERIFIER = "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC";
+
+// Minimal JSON-RPC node: `web3_clientVersion` and, optionally, `fhevm_relayer_metadata`
+function startNode(clientVersion: string, metadata?: Record<string, unknown>): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const reply = (p: { id: number; method: string }) => {
+        switch (p.method) {
+          case "eth_chainId":
+            return { jsonrpc: "2.0", id: p.id, result: "0x7a69" };
+          case "web3_clientVersion":
+            return { jsonrpc: "2.0", id: p.id, result: clientVersion };
+          case "fhevm_relayer_metadata":
+            if (metadata) {
+              return { jsonrpc: "2.0", id: p.id, result: metadata };
+            }
+        }
+        return { jsonrpc: "2.0", id: p.id, error: { code: -32601, message: "Method not found" } };
+      };
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(reply) : reply(payload)));
+    });
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+const servers: Server[] = [];
+
+async function nodeUrl(clientVersion: string, metadata?: Record<string, unknown>) {
+  const server = await startNode(clientVersion, metadata);
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe("tryCreateFhevmMockInstance", () => {
+  beforeAll(() => {
+    fhevmMockCreateInstance.mockClear();
+  });
+
+  afterAll(() => {
+    for (const server of servers) {
+      server.close();
+    }
+  });
+
+  it("reads the addresses and gateway chain id from fhevm_relayer_metadata", async () => {
+    const rpcUrl = await nodeUrl("HardhatNetwork/2.22.0", {
+      ACLAddress: ACL,
+      InputVerifierAddress: INPUT_VERIFIER,
+      KMSVerifierAddress: KMS_VERIFIER,
+      gatewayChainId: 12345,
+    });
+    await tryCreateFhevmMockInstance({ rpcUrl, chainId: 31337 });
+    expect(fhevmMockCreateInstance).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({ ACLAddress: ACL, gatewayChainId: 12345 }),
+      }),
+    );
+  });
+
+  it("supports anvil nodes with an explicit metadata override", async () => {
+    const rpcUrl = await nodeUrl("anvil/v1.0.0");
+    await tryCreateFhevmMockInstance({
+      rpcUrl,
+      chainId: 31337,
+      mock: {
+        metadata: { ACLAddress: ACL, InputVerifierAddress: INPUT_VERIFIER, KMSVerifierAddress: KMS_VERIFIER },
+      },
+    });
+    expect(fhevmMockCreateInstance).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({ KMSVerifierAddress: KMS_VERIFIER, gatewayChainId: 55815 }),
+      }),
+    );
+  });
+
+  it("uses the pluggable local node detector", async () => {
+    const rpcUrl = await nodeUrl("Geth/v1.14.0", {
+      ACLAddress: ACL,
+      InputVerifierAddress: INPUT_VERIFIER,
+      KMSVerifierAddress: KMS_VERIFIER,
+    });
+    fhevmMockCreateInstance.mockClear();
+
+    expect(await tryCreateFhevmMockInstance({ rpcUrl, chainId: 1337 })).toBeUndefined();
+    expect(fhevmMockCreateInstance).not.toHaveBeenCalled();
+
+    await tryCreateFhevmMockInstance({
+      rpcUrl,
+      chainId: 1337,
+      mock: { detectLocalNode: ({ clientVersion }) => clientVersion.startsWith("Geth/") },
+    });
+    expect(fhevmMockCreateInstance).toHaveBeenCalledTimes(1);
+  });
+});
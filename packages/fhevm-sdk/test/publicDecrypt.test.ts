@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { ethers } from "ethers";
+import { FhevmAclDeniedError, FhevmDecryptError } from "../src/internal/errors";
+import { buildPublicDecryptCalldata, publicDecryptHandles } from "../src/internal/publicDecrypt";
+import type { FhevmInstance } from "../src/fhevmTypes";
+
+const handleA = `0x${"ab".repeat(32)}` as const;
+const handleB = `0x${"cd".repeat(32)}` as const;
+
+function createInstance(publicDecrypt: (handles: string[]) => Promise<unknown>) {
+  return { publicDecrypt } as unknown as FhevmInstance;
+}
+
+const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+  ["uint64", "bool"],
+  [42n, true],
+) as `0x${string}`;
+
+const instance = createInstance(async handles => ({
+  clearValues: { [handles[0]]: 42n, [handles[1]]: true },
+  abiEncodedClearValues,
+  decryptionProof: "0x1234",
+}));
+
+describe("publicDecryptHandles", () => {
+  it("normalizes handles and returns the clear values with the proof", async () => {
+    const result = await publicDecryptHandles(instance, [handleA.toUpperCase().replace("0X", "0x"), handleB]);
+    expect(result.handles).toEqual([handleA, handleB]);
+    expect(result.clearValues[handleA]).toBe(42n);
+    expect(result.decryptionProof).toBe("0x1234");
+  });
+
+  it("keys the clear values by normalized handle", async () => {
+    // Relayer answering with upper case handles
+    const upper = createInstance(async handles => ({
+      clearValues: Object.fromEntries(handles.map((h, i) => [`0x${h.slice(2).toUpperCase()}`, i === 0 ? 42n : true])),
+      abiEncodedClearValues,
+      decryptionProof: "0x1234",
+    }));
+    const result = await publicDecryptHandles(upper, [handleA, handleB]);
+    expect(result.clearValues).toEqual({ [handleA]: 42n, [handleB]: true });
+
+    const abi = ["function reveal(uint64 amount, bool flag, bytes proof)"];
+    const reveal = buildPublicDecryptCalldata({ abi, functionName: "reveal", result });
+    expect(new ethers.Interface(abi).decodeFunctionData("reveal", reveal).toArray()).toEqual([42n, true, "0x1234"]);
+  });
+
+  it("rejects incomplete results and maps ACL denials", async () => {
+    const partial = createInstance(async handles => ({
+      clearValues: { [handles[0]]: 1n },
+      abiEncodedClearValues: "0x",
+      decryptionProof: "0x",
+    }));
+    await expect(publicDecryptHandles(partial, [handleA, handleB])).rejects.toBeInstanceOf(FhevmDecryptError);
+
+    const denied = createInstance(async () => {
+      throw new Error(`Handle ${handleA} is not allowed for public decryption!`);
+    });
+    await expect(publicDecryptHandles(denied, [handleA])).rejects.toBeInstanceOf(FhevmAclDeniedError);
+  });
+});
+
+describe("buildPublicDecryptCalldata", () => {
+  it("maps proof, clear values and handles to the function inputs", async () => {
+    const result = await publicDecryptHandles(instance, [handleA, handleB]);
+    const abi = [
+      "function finalize(uint256 requestId, bytes32[] handles, bytes cleartexts, bytes decryptionProof)",
+      "function reveal(uint64 amount, bool flag, bytes proof)",
+      "function annotate(string note, bytes proof)",
+    ];
+    const iface = new ethers.Interface(abi);
+
+    const finalize = buildPublicDecryptCalldata({ abi, functionName: "finalize", result, args: { requestId: 7n } });
+    expect(iface.decodeFunctionData("finalize", finalize).toArray()).toEqual([
+      7n,
+      [handleA, handleB],
+      abiEncodedClearValues,
+      "0x1234",
+    ]);
+
+    const reveal = buildPublicDecryptCalldata({ abi, functionName: "reveal", result });
+    expect(iface.decodeFunctionData("reveal", reveal).toArray()).toEqual([42n, true, "0x1234"]);
+
+    expect(() => buildPublicDecryptCalldata({ abi, functionName: "annotate", result })).toThrow(/note/);
+  });
+});
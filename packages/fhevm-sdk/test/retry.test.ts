@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { fhevmRetryDelay, isTransientFhevmError } from "../src/internal/retry";
+import {
+  FhevmAbortError,
+  FhevmConfigError,
+  FhevmLoaderError,
+  FhevmNetworkError,
+  FhevmRelayerError,
+  toFhevmError,
+} from "../src/internal/errors";
+
+describe("isTransientFhevmError", () => {
+  it("retries network, CDN and relayer server failures only", () => {
+    expect(isTransientFhevmError(new FhevmNetworkError("NETWORK_ERROR"))).toBe(true);
+    expect(isTransientFhevmError(new FhevmLoaderError("RELAYER_SDK_LOAD_TIMEOUT"))).toBe(true);
+    expect(isTransientFhevmError(new FhevmLoaderError("RELAYER_SDK_INVALID"))).toBe(false);
+    expect(isTransientFhevmError(new FhevmRelayerError("down", { status: 503 }))).toBe(true);
+    expect(isTransientFhevmError(new FhevmRelayerError("limited", { status: 429 }))).toBe(true);
+    expect(isTransientFhevmError(new FhevmRelayerError("bad request", { status: 400 }))).toBe(false);
+    expect(isTransientFhevmError(new FhevmConfigError("FHEVM_UNSUPPORTED_CHAIN"))).toBe(false);
+  });
+
+  it("retries an unreachable relayer key endpoint during instance creation", () => {
+    // Thrown by the relayer SDK when `/v1/keyurl` cannot be fetched
+    const e = new Error("Impossible to fetch public key: wrong relayer url.", {
+      cause: new TypeError("fetch failed"),
+    });
+    const error = toFhevmError(e, "init");
+    expect(error).toBeInstanceOf(FhevmNetworkError);
+    expect(error.message).toBe("Impossible to fetch public key: wrong relayer url.");
+    expect(isTransientFhevmError(error)).toBe(true);
+    expect(fhevmRetryDelay({}, error, 1)).toBe(1000);
+  });
+});
+
+describe("fhevmRetryDelay", () => {
+  const network = new FhevmNetworkError("NETWORK_ERROR");
+
+  it("backs off exponentially up to the maximum delay and number of retries", () => {
+    const policy = { retries: 4, initialDelayMs: 100, maxDelayMs: 350 };
+    expect([1, 2, 3, 4, 5].map(attempt => fhevmRetryDelay(policy, network, attempt))).toEqual([
+      100,
+      200,
+      350,
+      350,
+      undefined,
+    ]);
+  });
+
+  it("never retries aborts and honours shouldRetry", () => {
+    expect(fhevmRetryDelay({}, new FhevmAbortError(), 1)).toBeUndefined();
+    expect(fhevmRetryDelay({ shouldRetry: () => false }, network, 1)).toBeUndefined();
+    expect(fhevmRetryDelay({ shouldRetry: () => true }, new FhevmConfigError("FHEVM_UNSUPPORTED_CHAIN"), 1)).toBe(1000);
+  });
+});
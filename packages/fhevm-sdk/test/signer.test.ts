@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { ethers } from "ethers";
+import { toFhevmTypedDataSigner } from "../src/internal/signer";
+
+const wallet = new ethers.Wallet(ethers.id("fhevm-test-signer"));
+
+const domain = { name: "Decryption", version: "1", chainId: 11155111, verifyingContract: wallet.address };
+const types = {
+  UserDecryptRequestVerification: [
+    { name: "publicKey", type: "bytes" },
+    { name: "startTimestamp", type: "uint256" },
+  ],
+};
+const message = { publicKey: "0x01", startTimestamp: "1700000000" };
+
+function verify(signature: string) {
+  return ethers.verifyTypedData(domain, types, message, signature);
+}
+
+describe("toFhevmTypedDataSigner", () => {
+  it("uses ethers signers as is", () => {
+    expect(toFhevmTypedDataSigner(wallet)).toBe(wallet);
+  });
+
+  it("adapts a viem WalletClient", async () => {
+    const signTypedData = vi.fn(async ({ domain, types, message }) => wallet.signTypedData(domain, types, message));
+    const client = {
+      account: { address: wallet.address as `0x${string}` },
+      getAddresses: async () => [wallet.address as `0x${string}`],
+      signTypedData: signTypedData as never,
+      request: async () => null,
+    };
+    const signer = toFhevmTypedDataSigner(client);
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(verify(await signer.signTypedData(domain, types, message))).toBe(wallet.address);
+    expect(signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({ account: client.account, primaryType: "UserDecryptRequestVerification" }),
+    );
+  });
+
+  it("adapts a raw EIP-1193 provider", async () => {
+    const request = vi.fn(async ({ method, params }: { method: string; params?: unknown[] }) => {
+      if (method === "eth_accounts") {
+        return [wallet.address.toLowerCase()];
+      }
+      if (method === "eth_signTypedData_v4") {
+        const payload = JSON.parse(params![1] as string);
+        expect(payload.types.EIP712Domain).toBeDefined();
+        delete payload.types.EIP712Domain;
+        return wallet.signTypedData(payload.domain, payload.types, payload.message);
+      }
+      throw new Error(`Unexpected ${method}`);
+    });
+    const signer = toFhevmTypedDataSigner({ request });
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(verify(await signer.signTypedData(domain, types, message))).toBe(wallet.address);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { GenericStringInMemoryStorage } from "../src/storage/GenericStringStorage";
+import {
+  GenericStringInMemoryStorage,
+  GenericStringNamespacedStorage,
+  fhevmStorageNamespace,
+} from "../src/storage/GenericStringStorage";
+import { GenericStringLocalStorage, GenericStringSessionStorage } from "../src/storage/GenericStringWebStorage";
+import { GenericStringIndexedDBStorage } from "../src/storage/GenericStringIndexedDBStorage";
 
 describe("GenericStringInMemoryStorage", () => {
   it("sets/gets/removes values", async () => {
@@ -11,3 +17,28 @@ describe("GenericStringInMemoryStorage", () => {
   });
 });
 
+describe("persistent storages", () => {
+  it.each([
+    ["localStorage", () => new GenericStringLocalStorage()],
+    ["sessionStorage", () => new GenericStringSessionStorage()],
+    ["indexedDB", () => new GenericStringIndexedDBStorage({ dbName: "fhevm-storage-test" })],
+  ])("%s sets/gets/removes values", async (_, create) => {
+    const s = create();
+    await s.setItem("k", "v");
+    expect(await create().getItem("k")).toBe("v");
+    await s.removeItem("k");
+    expect(await s.getItem("k")).toBe(null);
+  });
+});
+
+describe("GenericStringNamespacedStorage", () => {
+  it("isolates chains and accounts sharing a backend", async () => {
+    const backend = new GenericStringInMemoryStorage();
+    const a = new GenericStringNamespacedStorage(backend, fhevmStorageNamespace({ chainId: 1, account: "0xAbC" }));
+    const b = new GenericStringNamespacedStorage(backend, fhevmStorageNamespace({ chainId: 2, account: "0xAbC" }));
+    await a.setItem("k", "a");
+    expect(await a.getItem("k")).toBe("a");
+    expect(await b.getItem("k")).toBe(null);
+    expect(backend.getItem("fhevm:1:0xabc:k")).toBe("a");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/web";
+import { addEncryptedParamsFromAbi, buildParamsFromAbi } from "../src/react/useFHEEncryption";
+
+const abi = [
+  {
+    type: "function",
+    name: "play",
+    inputs: [
+      { name: "score", type: "bytes32", internalType: "externalEuint32" },
+      { name: "flag", type: "bytes32", internalType: "externalEbool" },
+      { name: "mode", type: "uint8", internalType: "uint8" },
+      { name: "proof", type: "bytes", internalType: "bytes" },
+    ],
+  },
+];
+
+function recordingBuilder() {
+  const calls: [string, unknown][] = [];
+  const builder = new Proxy({} as RelayerEncryptedInput, {
+    get: (_, method: string) =>
+      function (this: unknown, value: unknown) {
+        calls.push([method, value]);
+        return this;
+      },
+  });
+  return { builder, calls };
+}
+
+const enc = { handles: [new Uint8Array([1]), new Uint8Array([2])], inputProof: new Uint8Array([0xff]) };
+
+describe("ABI-driven encryption", () => {
+  it("encrypts every external input in order and passes plaintext through", () => {
+    const { builder, calls } = recordingBuilder();
+    addEncryptedParamsFromAbi(builder, abi, "play", { score: 42, flag: true, mode: 3 });
+    expect(calls).toEqual([
+      ["add32", 42],
+      ["addBool", true],
+    ]);
+    expect(buildParamsFromAbi(enc, abi, "play", { score: 42, flag: true, mode: 3 })).toEqual([
+      "0x01",
+      "0x02",
+      3,
+      "0xff",
+    ]);
+    // Positional values skip the proof
+    expect(buildParamsFromAbi(enc, abi, "play", [42, true, 3])).toEqual(["0x01", "0x02", 3, "0xff"]);
+  });
+
+  it("reports missing values", () => {
+    const { builder } = recordingBuilder();
+    expect(() => addEncryptedParamsFromAbi(builder, abi, "play", { score: 42 })).toThrow(/flag/);
+    expect(() => buildParamsFromAbi(enc, abi, "play", { score: 42, flag: true })).toThrow(/mode/);
+    expect(() => buildParamsFromAbi(enc, abi, "missing")).toThrow(/missing/);
+    expect(() => addEncryptedParamsFromAbi(builder, abi, "play", { score: 5_000_000_000, flag: true })).toThrow(
+      /score \(euint32\): out of range/,
+    );
+  });
+});
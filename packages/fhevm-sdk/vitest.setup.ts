@@ -1,2 +1,5 @@
 import "fake-indexeddb/auto";
+import { setDefaultFhevmLogger, silentFhevmLogger } from "./src/internal/logger";
 
+// Failure paths under test log expected warnings and errors
+setDefaultFhevmLogger(silentFhevmLogger);
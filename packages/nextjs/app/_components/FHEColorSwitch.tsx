@@ -1,7 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useFhevm } from "@fhevm-sdk";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import { useAccount } from "wagmi";
 import { RainbowKitCustomConnectButton } from "~~/components/helper/RainbowKitCustomConnectButton";
@@ -187,23 +186,9 @@ const CoreGameArea = ({
 
 // --- Main FHEColorSwitch component ---
 export const FHEColorSwitch = () => {
-  const { isConnected, chain } = useAccount();
-  const activeChain = chain?.id;
+  const { isConnected } = useAccount();
 
-  const ethProvider = useMemo(() => (typeof window !== "undefined" ? (window as any).ethereum : undefined), []);
-
-  const initialMockChains = {
-    11155111: `https://eth-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`,
-  };
-
-  const { instance: colorSwitchVM } = useFhevm({
-    provider: ethProvider,
-    chainId: activeChain,
-    enabled: true,
-    initialMockChains: initialMockChains,
-  });
-
-  const cs = useFHEColorSwitch({ instance: colorSwitchVM, initialMockChains: initialMockChains });
+  const cs = useFHEColorSwitch();
 
   const currentScore = useRef(0);
   const [maxScore, setMaxScore] = useState(0);
@@ -340,7 +325,11 @@ export const FHEColorSwitch = () => {
                         : "bg-purple-600 hover:bg-purple-500 transform hover:-translate-y-0.5"
                   }`}
                 >
-                  {cs.isDecryptingScores ? "Decrypting..." : "🔓 Decrypt & View"}
+                  {cs.isDecryptingScores
+                    ? cs.decryptProgress
+                      ? `Decrypting ${cs.decryptProgress.decrypted}/${cs.decryptProgress.total}...`
+                      : "Decrypting..."
+                    : "🔓 Decrypt & View"}
                 </motion.button>
               </div>
 
@@ -371,6 +360,14 @@ export const FHEColorSwitch = () => {
                             <span>🏆</span>
                             <span>{Number(decrypted)}</span>
                           </motion.div>
+                        ) : cs.decryptFailures?.[item] ? (
+                          <div
+                            className="flex items-center gap-2 text-red-400"
+                            title={cs.decryptFailures[item].message}
+                          >
+                            <span>⚠️</span>
+                            <span className="italic">Decryption failed</span>
+                          </div>
                         ) : (
                           <div className="flex items-center gap-2 text-cyan-500/80">
                             <span>🔒</span>
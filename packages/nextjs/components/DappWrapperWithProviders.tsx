@@ -1,13 +1,14 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { InMemoryStorageProvider } from "@fhevm-sdk";
+import { FhevmProvider, FhevmStorageProvider } from "@fhevm-sdk";
 import { RainbowKitProvider, darkTheme, lightTheme } from "@rainbow-me/rainbowkit";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ethers } from "ethers";
 import { AppProgressBar as ProgressBar } from "next-nprogress-bar";
 import { useTheme } from "next-themes";
 import { Toaster } from "react-hot-toast";
-import { WagmiProvider } from "wagmi";
+import { WagmiProvider, useAccount } from "wagmi";
 import { Header } from "~~/components/Header";
 import { BlockieAvatar } from "~~/components/helper";
 import { wagmiConfig } from "~~/services/web3/wagmiConfig";
@@ -20,6 +21,52 @@ export const queryClient = new QueryClient({
   },
 });
 
+// RPC endpoints of the chains served by a mock FHEVM instance
+const initialMockChains = {
+  11155111: `https://eth-sepolia.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`,
+};
+
+// One FHEVM instance for the connected chain, shared by every page
+const FhevmInstance = ({ children }: { children: React.ReactNode }) => {
+  const { chain, connector } = useAccount();
+  // Provider of the connected wallet, which is not always `window.ethereum`
+  const [ethProvider, setEthProvider] = useState<ethers.Eip1193Provider | undefined>(undefined);
+
+  useEffect(() => {
+    if (!connector) {
+      setEthProvider(undefined);
+      return;
+    }
+    let cancelled = false;
+    connector.getProvider().then(
+      provider => {
+        if (!cancelled) setEthProvider(provider as ethers.Eip1193Provider);
+      },
+      () => {
+        if (!cancelled) setEthProvider(undefined);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [connector]);
+  return (
+    <FhevmProvider provider={ethProvider} chainId={chain?.id} initialMockChains={initialMockChains}>
+      {children}
+    </FhevmProvider>
+  );
+};
+
+// Decryption signatures survive reloads, encrypted and namespaced per chain and account
+const FhevmSignatureStorage = ({ children }: { children: React.ReactNode }) => {
+  const { address, chainId } = useAccount();
+  return (
+    <FhevmStorageProvider backend="localStorage" encrypt chainId={chainId} account={address}>
+      {children}
+    </FhevmStorageProvider>
+  );
+};
+
 export const DappWrapperWithProviders = ({ children }: { children: React.ReactNode }) => {
   const { resolvedTheme } = useTheme();
   const isDarkMode = resolvedTheme === "dark";
@@ -39,7 +86,9 @@ export const DappWrapperWithProviders = ({ children }: { children: React.ReactNo
           <ProgressBar height="3px" color="#2299dd" />
           <div className={`flex flex-col min-h-screen`}>
             <main className="relative flex flex-col flex-1">
-              <InMemoryStorageProvider>{children}</InMemoryStorageProvider>
+              <FhevmInstance>
+                <FhevmSignatureStorage>{children}</FhevmSignatureStorage>
+              </FhevmInstance>
             </main>
           </div>
           <Toaster />
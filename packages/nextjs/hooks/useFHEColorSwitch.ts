@@ -3,16 +3,10 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useDeployedContractInfo } from "./helper";
 import { useWagmiEthers } from "./wagmi/useWagmiEthers";
-import { FhevmInstance } from "@fhevm-sdk";
-import {
-  buildParamsFromAbi,
-  getEncryptionMethod,
-  useFHEDecrypt,
-  useFHEEncryption,
-  useInMemoryStorage,
-} from "@fhevm-sdk";
+import { useFHEDecrypt, useFHEEncryption, useFhevmContext, useFhevmStorage } from "@fhevm-sdk";
 import { ethers } from "ethers";
 import { useReadContract } from "wagmi";
+import { contracts } from "~~/utils/helper/contract";
 import type { Contract } from "~~/utils/helper/contract";
 import type { AllowedChainIds } from "~~/utils/helper/networks";
 
@@ -22,12 +16,9 @@ import type { AllowedChainIds } from "~~/utils/helper/networks";
  *         Supports encryption, on-chain submission, and off-chain decryption
  *         of private Color Switch game scores.
  */
-export const useFHEColorSwitch = (args: {
-  instance: FhevmInstance | undefined;
-  initialMockChains?: Readonly<Record<number, string>>;
-}) => {
-  const { instance, initialMockChains } = args;
-  const { storage: decSigStore } = useInMemoryStorage();
+export const useFHEColorSwitch = () => {
+  const { instance, initialMockChains } = useFhevmContext();
+  const { storage: decSigStore } = useFhevmStorage();
   const { chainId, accounts, isConnected, ethersReadonlyProvider, ethersSigner } = useWagmiEthers(initialMockChains);
 
   const activeChain = typeof chainId === "number" ? (chainId as AllowedChainIds) : undefined;
@@ -38,6 +29,15 @@ export const useFHEColorSwitch = (args: {
 
   type CSContractInfo = Contract<"FHEColorSwitch"> & { chainId?: number };
 
+  // Sign once for every deployed contract of the chain
+  const appContractAddresses = useMemo(
+    () =>
+      activeChain && contracts?.[activeChain]
+        ? Object.values(contracts[activeChain]).map(c => c.address as `0x${string}`)
+        : undefined,
+    [activeChain],
+  );
+
   const [statusMsg, setStatusMsg] = useState("");
   const [isBusy, setIsBusy] = useState(false);
 
@@ -77,12 +77,19 @@ export const useFHEColorSwitch = (args: {
     isDecrypting: isDecryptingScores,
     message: decryptMsg,
     results: decryptedScores,
+    progress: decryptProgress,
+    failures: decryptFailures,
   } = useFHEDecrypt({
     instance,
     ethersSigner: ethersSigner as any,
     fhevmDecryptionSignatureStorage: decSigStore,
     chainId,
     requests: decryptRequests,
+    signatureContractAddresses: appContractAddresses,
+    // Scores decrypted once are shown from the encrypted cache after a reload
+    decryptedValueStorage: decSigStore,
+    // New scores are decrypted after submission once the player has signed
+    auto: true,
   });
 
   useEffect(() => {
@@ -90,7 +97,7 @@ export const useFHEColorSwitch = (args: {
   }, [decryptMsg]);
 
   // FHE encryption hook
-  const { encryptWith } = useFHEEncryption({
+  const { encryptParams } = useFHEEncryption({
     instance,
     ethersSigner: ethersSigner as any,
     contractAddress: csContract?.address,
@@ -101,14 +108,6 @@ export const useFHEColorSwitch = (args: {
     [hasContract, instance, hasSigner, isBusy],
   );
 
-  const getEncryptionMethodFor = (fnName: "addEncryptedScore") => {
-    const fnAbi = csContract?.abi.find(item => item.type === "function" && item.name === fnName);
-    if (!fnAbi) return { method: undefined as string | undefined, error: `No ABI for ${fnName}` };
-    if (!fnAbi.inputs || fnAbi.inputs.length === 0)
-      return { method: undefined as string | undefined, error: `No inputs for ${fnName}` };
-    return { method: getEncryptionMethod(fnAbi.inputs[0].internalType), error: undefined };
-  };
-
   // Submit encrypted score
   const submitScore = useCallback(
     async (scoreValue: number) => {
@@ -116,16 +115,12 @@ export const useFHEColorSwitch = (args: {
       setIsBusy(true);
       setStatusMsg(`Submitting encrypted score (${scoreValue})...`);
       try {
-        const { method, error } = getEncryptionMethodFor("addEncryptedScore");
-        if (!method) return setStatusMsg(error ?? "Encryption method missing");
-        setStatusMsg(`Encrypting score with ${method}...`);
-        const encData = await encryptWith(builder => {
-          (builder as any)[method](scoreValue);
-        });
-        if (!encData) return setStatusMsg("Encryption failed");
+        setStatusMsg("Encrypting score...");
+        // Every encrypted parameter of the function shares a single input proof
+        const params = await encryptParams(csContract!.abi, "addEncryptedScore", { cipherScore: scoreValue });
+        if (!params) return setStatusMsg("Encryption failed");
         const contractWrite = getCSContract("write");
         if (!contractWrite) return setStatusMsg("Contract unavailable or signer missing");
-        const params = buildParamsFromAbi(encData, [...csContract!.abi] as any[], "addEncryptedScore");
         const tx = await contractWrite.addEncryptedScore(...params, { gasLimit: 300_000 });
         setStatusMsg("Waiting for transaction confirmation...");
         await tx.wait();
@@ -137,7 +132,7 @@ export const useFHEColorSwitch = (args: {
         setIsBusy(false);
       }
     },
-    [isBusy, canSubmit, encryptWith, getCSContract, refreshScores, csContract?.abi],
+    [isBusy, canSubmit, encryptParams, getCSContract, refreshScores, csContract?.abi],
   );
 
   useEffect(() => {
@@ -150,6 +145,8 @@ export const useFHEColorSwitch = (args: {
     decryptScores,
     isDecryptingScores,
     decryptedScores,
+    decryptProgress,
+    decryptFailures,
     scoreData,
     refreshScores,
     submitScore,